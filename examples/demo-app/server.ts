@@ -114,8 +114,8 @@ console.log(`
 `);
 
 // Handle shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('\nShutting down...');
-  server.stop();
+  await server.stop();
   process.exit(0);
 });
@@ -7,14 +7,131 @@
 
 export { BunAngularEngine, createBunAngularEngine } from './server/engine';
 export { createBunServer } from './server/server';
-export type { BunServerOptions } from './server/server';
+export type { BunServerOptions, BunAngularServer } from './server/server';
+export { createPurgeHandler } from './server/purge';
+export type { PurgeEndpointOptions } from './server/purge';
+export {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  createMetricsHandler,
+} from './server/metrics';
+export type { MetricLabels, MetricsEndpointOptions } from './server/metrics';
+export { createLogger, formatLogRecord } from './server/logger';
+export type { LogFields, LogFormat, LogLevel, LogRecord, Logger, LoggerOptions } from './server/logger';
+export { RotatingFileWriter, createAccessLogger, formatAccessLog } from './server/access-log';
+export type {
+  AccessLogEntry,
+  AccessLogFormat,
+  AccessLogger,
+  AccessLogOptions,
+  AccessLogType,
+} from './server/access-log';
+export {
+  OtlpHttpExporter,
+  Span,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+} from './server/tracing';
+export type {
+  FinishedSpan,
+  OtlpHttpExporterOptions,
+  SpanAttributes,
+  SpanContext,
+  SpanExporter,
+  SpanKind,
+  StartSpanOptions,
+  TracingOptions,
+} from './server/tracing';
+export { applySecurityHeaders, getSecurityHeaders } from './server/security-headers';
+export type { SecurityHeadersOptions } from './server/security-headers';
+export { ServerHealth, createHealthHandler } from './server/health';
+export type { HealthCheckOptions, ReadinessStatus, ServerState } from './server/health';
+export { CacheWarmer, parseSitemap } from './server/warmup';
+export type { WarmupContext, WarmupOptions, WarmupResult } from './server/warmup';
+export {
+  LocaleEngines,
+  createLocaleEngines,
+  createLocalizedRequestHandler,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from './server/i18n';
+export type {
+  LocaleEnginesOptions,
+  LocaleRoutingOptions,
+  LocalizedRequestHandlerOptions,
+} from './server/i18n';
+export { CACHE_TAGS, SERVER_HTTP_CONTEXT, SERVER_RESPONSE, TRACE_PARENT } from './server/tokens';
+export { ServerHttpFetcher } from './server/http';
+export type {
+  ServerHttpContext,
+  ServerHttpHandler,
+  ServerHttpOptions,
+  ServerHttpResponse,
+} from './server/http';
+export { serverHttpInterceptor } from './server/http-interceptor';
+export { CriticalCssInliner, extractCriticalCss } from './server/critical-css';
+export {
+  applyTransforms,
+  injectSnippet,
+  minifyHtml,
+  rewriteAssetUrls,
+} from './server/transforms';
+export type { HtmlTransform, HtmlTransformContext } from './server/transforms';
+export { DEFAULT_CSP_POLICY, generateNonce, stampNonce } from './server/csp';
+export type { CspOptions } from './server/csp';
+export { escapeHtml, renderDevErrorPage } from './server/error-page';
+export type { ErrorPageDetails, ErrorPageRenderer } from './server/error-page';
+export { SourceMapConsumer, StackTraceMapper, decodeVlq } from './server/source-map';
+export type { OriginalPosition, SourceMap } from './server/source-map';
+export { RenderQueueFullError, RenderTimeoutError } from './server/errors';
+export { RenderLimiter } from './server/limiter';
+export type { RenderLimiterOptions, RenderQueueStats } from './server/limiter';
+export { RenderWorkerPool } from './server/worker-pool';
+export type {
+  RenderWorkerPoolOptions,
+  RenderWorkerPoolStats,
+  RenderWorkerStats,
+} from './server/worker-pool';
+export { startRenderWorker } from './server/render-worker';
+export type { RenderWorkerOptions } from './server/render-worker';
+export { CSP_NONCE, REQUEST, REQUEST_CONTEXT, RESPONSE_INIT } from '@angular/core';
+export { ServerResponseInit, serializeCookie } from './server/response';
+export type { CookieOptions } from './server/response';
+export { createRouteMatcher, getRouteRenderOptions } from './server/routes';
+export type { RouteMatcher } from './server/routes';
 export { createRequestHandler } from './server/handler';
-export type { RequestHandlerOptions } from './server/handler';
+export type {
+  BunRequestHandler,
+  ClosableRequestHandler,
+  RequestHandlerOptions,
+  RequestIpSource,
+} from './server/handler';
 export {
   BunStaticFileHandler,
   createStaticFileHandler,
 } from './server/static';
 export type { StaticFileOptions } from './server/static';
+export { LRUCache, MemoryCacheStore } from './server/cache';
+export {
+  createCacheKeyFunction,
+  getDeviceClass,
+  DEFAULT_AUTH_COOKIES,
+  TRACKING_QUERY_PARAMS,
+} from './server/cache-key';
+export type {
+  CacheKeyFunction,
+  CacheKeyOptions,
+  CacheVaryOptions,
+  DeviceClass,
+} from './server/cache-key';
+export { SqliteCacheStore, createSqliteCacheStore } from './server/cache-sqlite';
+export type { SqliteCacheStoreOptions } from './server/cache-sqlite';
+export { RedisCacheStore, createRedisCacheStore } from './server/cache-redis';
+export type { RedisCacheStoreOptions } from './server/cache-redis';
 export { prerenderRoutes } from './prerender/prerender';
 export type {
   PrerenderOptions,
@@ -22,6 +139,12 @@ export type {
 } from './prerender/prerender';
 export type {
   BunAngularEngineOptions,
+  CacheEntry,
+  CacheStatus,
+  CacheStore,
+  InvalidateOptions,
+  RedirectStatus,
   RenderOptions,
   RenderResult,
+  RouteConfig,
 } from './server/types';
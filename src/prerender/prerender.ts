@@ -2,7 +2,11 @@ import { mkdir, writeFile } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { existsSync } from 'node:fs';
 import type { BunAngularEngine } from '../server/engine';
-import type { BunAngularEngineOptions } from '../server/types';
+import { CriticalCssInliner } from '../server/critical-css';
+import { minifyHtml } from '../server/transforms';
+import type { Logger } from '../server/logger';
+import type { LocaleEngines } from '../server/i18n';
+import type { BunAngularEngineOptions, RouteConfig } from '../server/types';
 
 /**
  * Route to prerender
@@ -38,10 +42,20 @@ export interface PrerenderOptions {
    */
   engine?: BunAngularEngine;
 
+  /**
+   * Engines of localized builds. Every route is rendered for each locale
+   * under its prefix (`/de/about` to `de/about/index.html`), and the sitemap
+   * lists the locales of each page as `hreflang` alternates.
+   */
+  locales?: LocaleEngines;
+
   /**
    * Routes to prerender
+   *
+   * Accepts the same `RouteConfig` list as the request handler; only routes
+   * with `renderMode: 'prerender'` and without wildcards are generated.
    */
-  routes: (string | PrerenderRoute)[];
+  routes: (string | PrerenderRoute | RouteConfig)[];
 
   /**
    * Output directory for prerendered files
@@ -60,6 +74,19 @@ export interface PrerenderOptions {
    */
   minify?: boolean;
 
+  /**
+   * Whether to inline the CSS used by each page and load stylesheets
+   * asynchronously
+   * @default false
+   */
+  inlineCriticalCss?: boolean;
+
+  /**
+   * Logger for rendered and failed routes
+   * @default the engine's logger
+   */
+  logger?: Logger;
+
   /**
    * Callback for progress updates
    */
@@ -107,6 +134,7 @@ export interface PrerenderResult {
   routes: Array<{
     path: string;
     outputPath: string;
+    locale?: string;
     success: boolean;
     error?: string;
     renderTime: number;
@@ -161,36 +189,95 @@ async function expandRoute(route: PrerenderRoute): Promise<string[]> {
 }
 
 /**
- * Simple HTML minification
+ * Convert a route config to a prerender route, or null if it is not prerendered
+ */
+function fromRouteConfig(route: RouteConfig): PrerenderRoute | null {
+  if (route.renderMode !== 'prerender' || route.path.includes('*')) {
+    return null;
+  }
+  return {
+    path: normalizePath(route.path),
+    getParams: route.getPrerenderParams,
+  };
+}
+
+/**
+ * Page listed in the sitemap
  */
-function minifyHtml(html: string): string {
-  return html
-    .replace(/<!--(?!<!)[^\[>].*?-->/gs, '') // Remove comments
-    .replace(/\s+/g, ' ') // Collapse whitespace
-    .replace(/>\s+</g, '><') // Remove whitespace between tags
-    .trim();
+interface SitemapPage {
+  path: string;
+
+  /**
+   * Localized versions of the page by `hreflang` (including the page itself)
+   */
+  alternates?: Record<string, string>;
 }
 
 /**
  * Generate a sitemap.xml file
  */
-function generateSitemap(routes: string[], baseUrl: string): string {
-  const urls = routes
-    .map((route) => {
-      const loc = new URL(route, baseUrl).href;
+function generateSitemap(pages: SitemapPage[], baseUrl: string): string {
+  const localized = pages.some((page) => page.alternates);
+  const urls = pages
+    .map((page) => {
+      const loc = new URL(page.path, baseUrl).href;
+      const links = Object.entries(page.alternates ?? {}).map(
+        ([hreflang, path]) =>
+          `\n    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${new URL(path, baseUrl).href}"/>`
+      );
       return `  <url>
-    <loc>${loc}</loc>
+    <loc>${loc}</loc>${links.join('')}
     <changefreq>weekly</changefreq>
   </url>`;
     })
     .join('\n');
 
+  const namespaces = localized ? ' xmlns:xhtml="http://www.w3.org/1999/xhtml"' : '';
   return `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${namespaces}>
 ${urls}
 </urlset>`;
 }
 
+/**
+ * Prefix a path with a locale (`/about` becomes `/de/about`, `/` becomes `/de/`)
+ */
+function localizePath(locale: string, path: string): string {
+  return `/${locale}${normalizePath(path)}`;
+}
+
+/**
+ * List prerendered pages for the sitemap, with the localized versions of
+ * each page as alternates
+ */
+function getSitemapPages(
+  routes: PrerenderResult['routes'],
+  locales: LocaleEngines | undefined
+): SitemapPage[] {
+  const successful = routes.filter((route) => route.success);
+  if (!locales) {
+    return successful.map((route) => ({ path: route.path }));
+  }
+
+  // Group the locales of each page by its unprefixed path
+  const versions = new Map<string, Record<string, string>>();
+  for (const route of successful) {
+    const basePath = route.path.slice(route.locale!.length + 1);
+    const alternates = versions.get(basePath) ?? {};
+    alternates[route.locale!] = route.path;
+    versions.set(basePath, alternates);
+  }
+
+  return successful.map((route) => {
+    const alternates = { ...versions.get(route.path.slice(route.locale!.length + 1))! };
+    const defaultPath = alternates[locales.defaultLocale];
+    if (defaultPath) {
+      alternates['x-default'] = defaultPath;
+    }
+    return { path: route.path, alternates };
+  });
+}
+
 /**
  * Chunk an array into smaller arrays
  */
@@ -217,6 +304,7 @@ export async function prerenderRoutes(
     outputDir,
     concurrency = 5,
     minify = false,
+    inlineCriticalCss = false,
     onProgress,
     onError,
     generateSitemap: shouldGenerateSitemap = true,
@@ -225,21 +313,43 @@ export async function prerenderRoutes(
 
   // Create or use engine
   let engine: BunAngularEngine;
-  if (options.engine) {
+  if (options.locales) {
+    engine = options.locales.defaultEngine;
+  } else if (options.engine) {
     engine = options.engine;
   } else if (options.engineOptions) {
     const { createBunAngularEngine } = await import('../server/engine');
     engine = createBunAngularEngine({
       ...options.engineOptions,
+      logger: options.logger ?? options.engineOptions.logger,
       enableCache: false, // No caching needed for prerendering
     });
   } else {
-    throw new Error('Either engine or engineOptions must be provided');
+    throw new Error('Either engine, engineOptions or locales must be provided');
   }
 
+  const logger = options.logger ?? engine.logger;
+
+  // Critical CSS comes from the stylesheets of each engine's build
+  const criticalCssInliners = new Map<BunAngularEngine, CriticalCssInliner>();
+  const getCriticalCss = (target: BunAngularEngine): CriticalCssInliner | null => {
+    if (!inlineCriticalCss) return null;
+    let inliner = criticalCssInliners.get(target);
+    if (!inliner) {
+      inliner = new CriticalCssInliner(target.getBrowserDistFolder());
+      criticalCssInliners.set(target, inliner);
+    }
+    return inliner;
+  };
+
   // Expand all routes
   const expandedRoutes: Array<{ path: string; outputPath: string }> = [];
-  for (const route of routes) {
+  for (const entry of routes) {
+    const route =
+      typeof entry !== 'string' && 'renderMode' in entry ? fromRouteConfig(entry) : entry;
+    if (route === null) {
+      continue;
+    }
     if (typeof route === 'string') {
       expandedRoutes.push({
         path: route,
@@ -258,8 +368,26 @@ export async function prerenderRoutes(
     }
   }
 
+  // Render every route once per locale, or once with the engine
+  const { locales } = options;
+  const targets: Array<{
+    path: string;
+    outputPath: string;
+    engine: BunAngularEngine;
+    locale?: string;
+  }> = locales
+    ? locales.locales.flatMap((locale) =>
+        expandedRoutes.map(({ path, outputPath }) => ({
+          path: localizePath(locale, path),
+          outputPath: join(locale, outputPath),
+          engine: locales.get(locale)!,
+          locale,
+        }))
+      )
+    : expandedRoutes.map((route) => ({ ...route, engine }));
+
   const result: PrerenderResult = {
-    total: expandedRoutes.length,
+    total: targets.length,
     success: 0,
     failed: 0,
     routes: [],
@@ -272,11 +400,11 @@ export async function prerenderRoutes(
   }
 
   // Process routes in chunks for concurrency control
-  const chunks = chunk(expandedRoutes, concurrency);
+  const chunks = chunk(targets, concurrency);
   let completed = 0;
 
   for (const routeChunk of chunks) {
-    const promises = routeChunk.map(async ({ path, outputPath }) => {
+    const promises = routeChunk.map(async ({ path, outputPath, engine, locale }) => {
       const routeStartTime = performance.now();
       const fullOutputPath = join(outputDir, outputPath);
 
@@ -284,6 +412,7 @@ export async function prerenderRoutes(
         const renderResult = await engine.render({
           url: path,
           skipCache: true,
+          stream: false,
         });
 
         if (renderResult.status !== 200) {
@@ -291,6 +420,10 @@ export async function prerenderRoutes(
         }
 
         let html = renderResult.html;
+        const criticalCss = getCriticalCss(engine);
+        if (criticalCss) {
+          html = await criticalCss.inline(html);
+        }
         if (minify) {
           html = minifyHtml(html);
         }
@@ -305,17 +438,20 @@ export async function prerenderRoutes(
 
         completed++;
         onProgress?.(completed, result.total, path);
+        logger.debug(`Prerendered ${path}`, { path, outputPath: fullOutputPath });
 
         result.success++;
         result.routes.push({
           path,
           outputPath: fullOutputPath,
+          locale,
           success: true,
           renderTime: performance.now() - routeStartTime,
         });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         const shouldContinue = onError?.(error instanceof Error ? error : new Error(errorMessage), path);
+        logger.error(`Prerendering ${path} failed`, { path, error });
 
         completed++;
         onProgress?.(completed, result.total, path);
@@ -324,6 +460,7 @@ export async function prerenderRoutes(
         result.routes.push({
           path,
           outputPath: fullOutputPath,
+          locale,
           success: false,
           error: errorMessage,
           renderTime: performance.now() - routeStartTime,
@@ -340,13 +477,15 @@ export async function prerenderRoutes(
 
   // Generate sitemap
   if (shouldGenerateSitemap && result.success > 0) {
-    const successfulRoutes = result.routes
-      .filter((r) => r.success)
-      .map((r) => r.path);
-    const sitemapContent = generateSitemap(successfulRoutes, baseUrl);
+    const sitemapContent = generateSitemap(getSitemapPages(result.routes, locales), baseUrl);
     await writeFile(join(outputDir, 'sitemap.xml'), sitemapContent, 'utf-8');
   }
 
   result.totalTime = performance.now() - startTime;
+  logger.info(`Prerendered ${result.success} of ${result.total} routes`, {
+    success: result.success,
+    failed: result.failed,
+    duration: Math.round(result.totalTime),
+  });
   return result;
 }
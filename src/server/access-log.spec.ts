@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  RotatingFileWriter,
+  createAccessLogger,
+  formatAccessLog,
+  type AccessLogEntry,
+} from './access-log';
+import type { Logger, LogFields } from './logger';
+
+const entry: AccessLogEntry = {
+  time: new Date('2026-10-05T13:55:36.000Z'),
+  method: 'GET',
+  url: '/products?page=2',
+  status: 200,
+  duration: 12.345,
+  type: 'ssr',
+  size: 2326,
+  remoteAddress: '203.0.113.7',
+  referer: 'https://example.com/',
+  userAgent: 'Mozilla/5.0 "test"',
+};
+
+describe('formatAccessLog', () => {
+  it('should format the combined log format', () => {
+    expect(formatAccessLog(entry, 'combined')).toBe(
+      '203.0.113.7 - - [05/Oct/2026:13:55:36 +0000] "GET /products?page=2 HTTP/1.1" 200 2326 ' +
+        '"https://example.com/" "Mozilla/5.0 \\"test\\""'
+    );
+    expect(formatAccessLog({ ...entry, size: undefined, remoteAddress: undefined }, 'combined')).toMatch(
+      /^- - - .* 200 - /
+    );
+  });
+
+  it('should format JSON and pretty lines', () => {
+    expect(JSON.parse(formatAccessLog(entry, 'json'))).toMatchObject({
+      time: '2026-10-05T13:55:36.000Z',
+      status: 200,
+      type: 'ssr',
+    });
+    expect(formatAccessLog(entry, 'pretty')).toBe(
+      '2026-10-05T13:55:36.000Z [SSR] GET /products?page=2 200 12.35ms'
+    );
+  });
+});
+
+describe('createAccessLogger', () => {
+  it('should send entries to the logger without options', () => {
+    const records: [string, LogFields | undefined][] = [];
+    const logger: Logger = {
+      debug: () => {},
+      info: (message, fields) => records.push([message, fields]),
+      warn: () => {},
+      error: () => {},
+    };
+
+    createAccessLogger(undefined, logger)(entry);
+
+    expect(records[0][0]).toBe('GET /products?page=2 200 12.35ms');
+    expect(records[0][1]).toMatchObject({ method: 'GET', status: 200, type: 'ssr' });
+  });
+
+  it('should close a shared log file once its last logger is closed', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ngx-bun-access-log-'));
+    const file = join(dir, 'access.log');
+    const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+    try {
+      const first = createAccessLogger({ file, format: 'json' }, logger);
+      const second = createAccessLogger({ file, format: 'json' }, logger);
+      first(entry);
+      await first.close();
+      second({ ...entry, status: 404 });
+      await second.close();
+
+      const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).status)).toEqual([200, 404]);
+
+      // Later loggers reopen the file
+      const third = createAccessLogger({ file, format: 'json' }, logger);
+      third(entry);
+      await third.close();
+      expect((await readFile(file, 'utf-8')).trim().split('\n')).toHaveLength(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RotatingFileWriter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ngx-bun-access-log-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate by size and keep maxFiles rotated files', async () => {
+    const file = join(dir, 'logs', 'access.log');
+    const writer = new RotatingFileWriter(file, { maxSize: 10, maxFiles: 2 });
+    for (const line of ['line-1', 'line-2', 'line-3', 'line-4']) {
+      writer.write(line);
+    }
+    await writer.close();
+
+    expect((await readdir(join(dir, 'logs'))).sort()).toEqual([
+      'access.log',
+      'access.log.1',
+      'access.log.2',
+    ]);
+    expect(await readFile(file, 'utf-8')).toBe('line-4\n');
+    expect(await readFile(`${file}.1`, 'utf-8')).toBe('line-3\n');
+    expect(await readFile(`${file}.2`, 'utf-8')).toBe('line-2\n');
+  });
+
+  it('should append to an existing file', async () => {
+    const file = join(dir, 'access.log');
+    const first = new RotatingFileWriter(file);
+    first.write('first');
+    await first.close();
+
+    const second = new RotatingFileWriter(file);
+    second.write('second');
+    await second.close();
+
+    expect(await readFile(file, 'utf-8')).toBe('first\nsecond\n');
+  });
+});
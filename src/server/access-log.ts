@@ -0,0 +1,300 @@
+import {
+  createWriteStream,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  renameSync,
+  rmSync,
+  type WriteStream,
+} from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { Logger } from './logger';
+
+/**
+ * How a request was served
+ */
+export type AccessLogType = 'ssr' | 'static' | 'client' | 'error';
+
+/**
+ * A served request
+ */
+export interface AccessLogEntry {
+  time: Date;
+  method: string;
+  /**
+   * Path and query string of the request
+   */
+  url: string;
+  status: number;
+  /**
+   * Time to produce the response in milliseconds
+   */
+  duration: number;
+  type: AccessLogType;
+  /**
+   * Response body size in bytes, when known
+   */
+  size?: number;
+  remoteAddress?: string;
+  referer?: string;
+  userAgent?: string;
+}
+
+/**
+ * Built-in access log formats
+ *
+ * - `json`: one JSON object per line
+ * - `pretty`: colored, human-readable lines
+ * - `combined`: Apache/NGINX combined log format
+ */
+export type AccessLogFormat = 'json' | 'pretty' | 'combined';
+
+/**
+ * Access log options
+ */
+export interface AccessLogOptions {
+  /**
+   * Line format
+   * @default 'pretty' ('combined' when writing to a file)
+   */
+  format?: AccessLogFormat;
+
+  /**
+   * Write the access log to this file instead of stdout
+   */
+  file?: string;
+
+  /**
+   * Rotate the file once it would grow beyond this many bytes
+   * @default 10485760 (10 MiB)
+   */
+  maxSize?: number;
+
+  /**
+   * Number of rotated files to keep (`access.log.1`, `access.log.2`, ...)
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+const TYPE_COLORS: Record<AccessLogType, string> = {
+  ssr: '\x1b[35m', // magenta
+  static: '\x1b[36m', // cyan
+  client: '\x1b[33m', // yellow
+  error: '\x1b[31m', // red
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Format a date as `10/Oct/2000:13:55:36 +0000`
+ */
+function formatCommonLogDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  );
+}
+
+/**
+ * Quote a header value for the combined log format
+ */
+function quote(value: string | undefined): string {
+  return value ? `"${value.replace(/["\\]/g, '\\$&')}"` : '"-"';
+}
+
+/**
+ * Format an access log entry as a line
+ */
+export function formatAccessLog(entry: AccessLogEntry, format: AccessLogFormat, colors = false): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ ...entry, time: entry.time.toISOString() });
+    case 'combined':
+      return (
+        `${entry.remoteAddress ?? '-'} - - [${formatCommonLogDate(entry.time)}] ` +
+        `${quote(`${entry.method} ${entry.url} HTTP/1.1`)} ${entry.status} ${entry.size ?? '-'} ` +
+        `${quote(entry.referer)} ${quote(entry.userAgent)}`
+      );
+    default: {
+      const type = `[${entry.type.toUpperCase()}]`;
+      return (
+        `${entry.time.toISOString()} ${colors ? `${TYPE_COLORS[entry.type]}${type}\x1b[0m` : type} ` +
+        `${entry.method} ${entry.url} ${entry.status} ${entry.duration.toFixed(2)}ms`
+      );
+    }
+  }
+}
+
+/**
+ * End a write stream once its queued data is written
+ */
+function endStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve) => stream.end(resolve));
+}
+
+/**
+ * RotatingFileWriter - Appends lines to a file, rotating it by size
+ *
+ * Lines are queued on a write stream and written in the background, so
+ * logging doesn't block the event loop. Once the file would exceed
+ * `maxSize`, it is renamed to `<file>.1`, older files shift up by one and
+ * the oldest beyond `maxFiles` is removed.
+ */
+export class RotatingFileWriter {
+  private readonly path: string;
+  private readonly maxSize: number;
+  private readonly maxFiles: number;
+  private readonly onError: (error: Error) => void;
+  private stream: WriteStream;
+  private size: number;
+  // Streams of rotated files still writing their queued lines
+  private readonly rotated = new Set<Promise<void>>();
+
+  constructor(
+    path: string,
+    options: { maxSize?: number; maxFiles?: number; onError?: (error: Error) => void } = {}
+  ) {
+    this.path = path;
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.onError = options.onError ?? ((error) => console.error('Access log write failed', error));
+    mkdirSync(dirname(path), { recursive: true });
+    [this.stream, this.size] = this.open();
+  }
+
+  /**
+   * Queue a line
+   */
+  write(line: string): void {
+    const data = Buffer.from(`${line}\n`);
+    if (this.size > 0 && this.size + data.length > this.maxSize) {
+      this.rotate();
+    }
+    this.stream.write(data);
+    this.size += data.length;
+  }
+
+  /**
+   * Write the queued lines and close the file
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.rotated, endStream(this.stream)]);
+  }
+
+  /**
+   * Open the file for appending, returning its stream and current size
+   *
+   * The file is opened synchronously, so it can be renamed right away
+   * while lines are still being written to it.
+   */
+  private open(): [WriteStream, number] {
+    const fd = openSync(this.path, 'a');
+    const stream = createWriteStream(this.path, { fd });
+    stream.on('error', this.onError);
+    return [stream, fstatSync(fd).size];
+  }
+
+  /**
+   * Move the current file aside and start a new one
+   *
+   * Lines still queued for the old file end up in the renamed file.
+   */
+  private rotate(): void {
+    if (this.maxFiles > 0) {
+      rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        if (existsSync(`${this.path}.${index}`)) {
+          renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+        }
+      }
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      rmSync(this.path, { force: true });
+    }
+    const ended = endStream(this.stream).finally(() => this.rotated.delete(ended));
+    this.rotated.add(ended);
+    [this.stream, this.size] = this.open();
+  }
+}
+
+/**
+ * Function recording served requests
+ */
+export interface AccessLogger {
+  (entry: AccessLogEntry): void;
+
+  /**
+   * Write the queued lines and close the log file once no other logger
+   * writes to it
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Writers of open access log files with the number of loggers using them,
+ * shared by handlers logging to the same file
+ */
+const fileWriters = new Map<string, { writer: RotatingFileWriter; loggers: number }>();
+
+/**
+ * Create a function recording served requests
+ *
+ * Without options, entries are sent to the logger at info level with the
+ * entry as structured fields. With a format or file, formatted lines are
+ * written to stdout or to a rotating file.
+ */
+export function createAccessLogger(
+  options: AccessLogOptions | undefined,
+  logger: Logger
+): AccessLogger {
+  const close = async () => undefined;
+
+  if (!options || (!options.format && !options.file)) {
+    const log = (entry: AccessLogEntry) => {
+      const { time: _time, ...fields } = entry;
+      logger.info(
+        `${entry.method} ${entry.url} ${entry.status} ${entry.duration.toFixed(2)}ms`,
+        fields
+      );
+    };
+    return Object.assign(log, { close });
+  }
+
+  if (options.file) {
+    const format = options.format ?? 'combined';
+    const path = resolve(options.file);
+    const file = fileWriters.get(path) ?? {
+      writer: new RotatingFileWriter(path, {
+        ...options,
+        onError: (error) => logger.error(`Access log write to ${path} failed`, { error }),
+      }),
+      loggers: 0,
+    };
+    file.loggers++;
+    fileWriters.set(path, file);
+
+    let closed = false;
+    const log = (entry: AccessLogEntry) => file.writer.write(formatAccessLog(entry, format));
+    return Object.assign(log, {
+      async close() {
+        if (closed) return;
+        closed = true;
+        file.loggers--;
+        if (file.loggers === 0) {
+          fileWriters.delete(path);
+          await file.writer.close();
+        }
+      },
+    });
+  }
+
+  const format = options.format ?? 'pretty';
+  const colors = format === 'pretty' && process.stdout.isTTY === true;
+  const log = (entry: AccessLogEntry) => {
+    process.stdout.write(`${formatAccessLog(entry, format, colors)}\n`);
+  };
+  return Object.assign(log, { close });
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCacheKeyFunction,
+  getDeviceClass,
+  getVaryHeaders,
+  parseCookies,
+  TRACKING_QUERY_PARAMS,
+} from './cache-key';
+
+function request(path: string, headers: Record<string, string> = {}): [Request, URL] {
+  const req = new Request(`http://localhost${path}`, { headers });
+  return [req, new URL(req.url)];
+}
+
+describe('createCacheKeyFunction', () => {
+  it('should key on pathname and query string by default', () => {
+    const key = createCacheKeyFunction();
+    expect(key(...request('/products?page=2'))).toBe('/products?page=2');
+    expect(key(...request('/products'))).toBe('/products');
+  });
+
+  it('should drop ignored query parameters', () => {
+    const key = createCacheKeyFunction({ varyBy: { ignoreQuery: TRACKING_QUERY_PARAMS } });
+    expect(key(...request('/?utm_source=mail&utm_medium=x&page=1&gclid=abc'))).toBe('/?page=1');
+  });
+
+  it('should keep only allowed query parameters', () => {
+    const key = createCacheKeyFunction({ varyBy: { query: ['q'] } });
+    expect(key(...request('/search?q=bun&ref=home'))).toBe('/search?q=bun');
+  });
+
+  it('should vary on headers, cookies and device class', () => {
+    const key = createCacheKeyFunction({
+      varyBy: { headers: ['Accept-Language'], cookies: ['theme'], device: true },
+    });
+    const result = key(
+      ...request('/', {
+        'Accept-Language': 'de',
+        Cookie: 'theme=dark; other=1',
+        'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile',
+      })
+    );
+    expect(result).toBe('/|accept-language=de|cookie:theme=dark|device=mobile');
+  });
+
+  it('should skip the cache for authenticated requests', () => {
+    const key = createCacheKeyFunction({ authCookies: ['sid'] });
+    expect(key(...request('/', { Cookie: 'sid=123' }))).toBeNull();
+    expect(key(...request('/', { Authorization: 'Bearer x' }))).toBeNull();
+    expect(key(...request('/', { Cookie: 'theme=dark' }))).toBe('/');
+  });
+
+  it('should work without a request', () => {
+    const key = createCacheKeyFunction({ varyBy: { headers: ['Accept-Language'] } });
+    expect(key(undefined, new URL('http://localhost/about'))).toBe('/about|accept-language=');
+  });
+});
+
+describe('getVaryHeaders', () => {
+  it('should list varied headers once', () => {
+    expect(
+      getVaryHeaders({ headers: ['Accept-Language', 'cookie'], cookies: ['theme'], device: true })
+    ).toEqual(['Accept-Language', 'cookie', 'User-Agent']);
+    expect(getVaryHeaders(undefined)).toEqual([]);
+  });
+});
+
+describe('getDeviceClass', () => {
+  it('should classify user agents', () => {
+    expect(getDeviceClass('Mozilla/5.0 (Linux; Android 14; Pixel 8) Mobile Safari')).toBe('mobile');
+    expect(getDeviceClass('Mozilla/5.0 (Linux; Android 14; SM-X910) Safari')).toBe('tablet');
+    expect(getDeviceClass('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)')).toBe('tablet');
+    expect(getDeviceClass('Mozilla/5.0 (X11; Linux x86_64) Firefox/130.0')).toBe('desktop');
+    expect(getDeviceClass(null)).toBe('desktop');
+  });
+});
+
+describe('parseCookies', () => {
+  it('should parse cookie headers', () => {
+    expect(parseCookies('a=1; b=two=2;  c=')).toEqual({ a: '1', b: 'two=2', c: '' });
+    expect(parseCookies(null)).toEqual({});
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Cache key strategies for the render cache
+ */
+
+/**
+ * Custom cache key function
+ *
+ * Return `null` to skip the cache for the request.
+ */
+export type CacheKeyFunction = (request: Request | undefined, url: URL) => string | null;
+
+/**
+ * Request attributes the render cache varies on
+ */
+export interface CacheVaryOptions {
+  /**
+   * Request headers whose values become part of the cache key
+   * (e.g. `['Accept-Language']`)
+   */
+  headers?: string[];
+
+  /**
+   * Cookies whose values become part of the cache key
+   */
+  cookies?: string[];
+
+  /**
+   * Query parameters to keep in the cache key. When set, all other
+   * parameters are dropped.
+   */
+  query?: string[];
+
+  /**
+   * Query parameters to drop from the cache key. Entries ending in `*`
+   * match by prefix (e.g. `'utm_*'`).
+   */
+  ignoreQuery?: (string | RegExp)[];
+
+  /**
+   * Vary on the device class (mobile, tablet or desktop) derived from
+   * the User-Agent header
+   * @default false
+   */
+  device?: boolean;
+}
+
+/**
+ * Options for creating a cache key function
+ */
+export interface CacheKeyOptions {
+  /**
+   * Request attributes to vary the cache on
+   */
+  varyBy?: CacheVaryOptions;
+
+  /**
+   * Cookies that mark a request as authenticated. Requests carrying one of
+   * them (or an Authorization header) skip the cache.
+   * @default DEFAULT_AUTH_COOKIES
+   */
+  authCookies?: string[];
+}
+
+/**
+ * Device class used when varying on `device`
+ */
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Cookie names commonly used for sessions and authentication
+ */
+export const DEFAULT_AUTH_COOKIES = [
+  'session',
+  'sessionid',
+  'connect.sid',
+  'auth',
+  'auth_token',
+  'access_token',
+  'jwt',
+];
+
+/**
+ * Query parameters added by marketing and analytics tools
+ */
+export const TRACKING_QUERY_PARAMS = ['utm_*', 'gclid', 'fbclid', 'msclkid', '_ga'];
+
+/**
+ * Parse a Cookie header into a name/value map
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (name && !(name in cookies)) {
+      cookies[name] = part.slice(index + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Derive the device class from a User-Agent header
+ */
+export function getDeviceClass(userAgent: string | null | undefined): DeviceClass {
+  if (!userAgent) return 'desktop';
+  if (/iPad|Tablet|PlayBook|Silk|(Android(?!.*Mobile))/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
+
+/**
+ * Get the response headers matching a vary configuration, for the `Vary` header
+ */
+export function getVaryHeaders(varyBy: CacheVaryOptions | undefined): string[] {
+  if (!varyBy) return [];
+  const headers = [...(varyBy.headers ?? [])];
+  if (varyBy.cookies?.length) {
+    headers.push('Cookie');
+  }
+  if (varyBy.device) {
+    headers.push('User-Agent');
+  }
+  // Deduplicate case-insensitively, keeping the first spelling
+  const seen = new Set<string>();
+  return headers.filter((header) => {
+    const lower = header.toLowerCase();
+    if (seen.has(lower)) return false;
+    seen.add(lower);
+    return true;
+  });
+}
+
+/**
+ * Check whether a query parameter matches one of the ignore patterns
+ */
+function isIgnoredParam(name: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern instanceof RegExp) return pattern.test(name);
+    if (pattern.endsWith('*')) return name.startsWith(pattern.slice(0, -1));
+    return name === pattern;
+  });
+}
+
+/**
+ * Create a cache key function from declarative options
+ *
+ * The key starts with the pathname and the retained query string; each
+ * varied attribute is appended as `|name=value`.
+ */
+export function createCacheKeyFunction(options: CacheKeyOptions = {}): CacheKeyFunction {
+  const { varyBy = {}, authCookies = DEFAULT_AUTH_COOKIES } = options;
+  const ignoreQuery = varyBy.ignoreQuery ?? [];
+
+  return (request, url) => {
+    const cookies = parseCookies(request?.headers.get('Cookie'));
+
+    // Never share personalized pages
+    if (request?.headers.has('Authorization')) return null;
+    if (authCookies.some((name) => name in cookies)) return null;
+
+    const params = new URLSearchParams();
+    for (const [name, value] of url.searchParams) {
+      if (varyBy.query && !varyBy.query.includes(name)) continue;
+      if (isIgnoredParam(name, ignoreQuery)) continue;
+      params.append(name, value);
+    }
+    const search = params.toString();
+    let key = search ? `${url.pathname}?${search}` : url.pathname;
+
+    for (const header of varyBy.headers ?? []) {
+      key += `|${header.toLowerCase()}=${request?.headers.get(header) ?? ''}`;
+    }
+    for (const cookie of varyBy.cookies ?? []) {
+      key += `|cookie:${cookie}=${cookies[cookie] ?? ''}`;
+    }
+    if (varyBy.device) {
+      key += `|device=${getDeviceClass(request?.headers.get('User-Agent'))}`;
+    }
+
+    return key;
+  };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { RedisCacheStore } from './cache-redis';
+
+/**
+ * Minimal in-memory stand-in for a Redis server
+ */
+function createStandInServer(data: Map<string, { value: string; expiresAt: number }>): Server {
+  const bulk = (value: string | null) =>
+    value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+  return createServer((socket) => {
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      // Commands are RESP arrays of bulk strings
+      while (buffer.startsWith('*')) {
+        const lines = buffer.split('\r\n');
+        const count = Number(lines[0].slice(1));
+        if (lines.length < 1 + count * 2 + 1) return;
+        const args: string[] = [];
+        for (let i = 0; i < count; i++) {
+          args.push(lines[2 + i * 2]);
+        }
+        buffer = lines.slice(1 + count * 2).join('\r\n');
+
+        const [command, ...rest] = args;
+        switch (command.toUpperCase()) {
+          case 'SET': {
+            const ttl = rest[2] === 'PX' ? Number(rest[3]) : Infinity;
+            data.set(rest[0], { value: rest[1], expiresAt: Date.now() + ttl });
+            socket.write('+OK\r\n');
+            break;
+          }
+          case 'GET': {
+            const record = data.get(rest[0]);
+            socket.write(bulk(record && record.expiresAt > Date.now() ? record.value : null));
+            break;
+          }
+          case 'MGET': {
+            const values = rest.map((key) => {
+              const record = data.get(key);
+              return bulk(record && record.expiresAt > Date.now() ? record.value : null);
+            });
+            socket.write(`*${values.length}\r\n${values.join('')}`);
+            break;
+          }
+          case 'DEL': {
+            let removed = 0;
+            for (const key of rest) {
+              if (data.delete(key)) removed++;
+            }
+            socket.write(`:${removed}\r\n`);
+            break;
+          }
+          case 'SCAN': {
+            const prefix = rest[2].replace(/\*$/, '');
+            const keys = [...data.keys()].filter((key) => key.startsWith(prefix));
+            socket.write(`*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`);
+            break;
+          }
+          case 'EXEC':
+            // Transaction reply with a failed command in the middle
+            socket.write(`*3\r\n+OK\r\n-ERR wrong type\r\n${bulk('done')}`);
+            break;
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      }
+    });
+  });
+}
+
+describe('RedisCacheStore', () => {
+  const data = new Map<string, { value: string; expiresAt: number }>();
+  let server: Server;
+  let store: RedisCacheStore<{ html: string }>;
+
+  beforeAll(async () => {
+    server = createStandInServer(data);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    store = new RedisCacheStore({ url: `redis://127.0.0.1:${port}`, keyPrefix: 'test:' });
+  });
+
+  afterAll(async () => {
+    store.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    data.clear();
+  });
+
+  it('should store and retrieve values', async () => {
+    await store.set('/about', { html: '<p>About</p>' });
+    expect(await store.get('/about')).toEqual({ html: '<p>About</p>' });
+    expect(data.has('test:/about')).toBe(true);
+  });
+
+  it('should return undefined for missing keys', async () => {
+    expect(await store.get('/missing')).toBeUndefined();
+  });
+
+  it('should get many values with one command', async () => {
+    await store.set('/a', { html: 'A' });
+    await store.set('/c', { html: 'C' });
+    expect(await store.getMany(['/a', '/b', '/c'])).toEqual([
+      { html: 'A' },
+      undefined,
+      { html: 'C' },
+    ]);
+    expect(await store.getMany([])).toEqual([]);
+  });
+
+  it('should pass the TTL to the server', async () => {
+    await store.set('/short', { html: '' }, 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await store.get('/short')).toBeUndefined();
+  });
+
+  it('should delete keys', async () => {
+    await store.set('/a', { html: 'a' });
+    expect(await store.delete('/a')).toBe(true);
+    expect(await store.delete('/a')).toBe(false);
+  });
+
+  it('should list and clear only prefixed keys', async () => {
+    data.set('other:key', { value: '{}', expiresAt: Infinity });
+    await store.set('/a', { html: 'a' });
+    await store.set('/b', { html: 'b' });
+
+    expect((await store.keys()).sort()).toEqual(['/a', '/b']);
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+    expect(data.has('other:key')).toBe(true);
+  });
+
+  it('should surface error replies', async () => {
+    const client = (store as unknown as { client: { command(args: string[]): Promise<unknown> } }).client;
+    await expect(client.command(['FLUSHALL'])).rejects.toThrow("unknown command 'FLUSHALL'");
+  });
+
+  it('should consume array replies containing errors before the next reply', async () => {
+    const client = (store as unknown as { client: { command(args: string[]): Promise<unknown> } }).client;
+    await store.set('/a', { html: 'a' });
+
+    const [exec, get] = await Promise.allSettled([
+      client.command(['EXEC']),
+      client.command(['GET', 'test:/a']),
+    ]);
+    expect(exec).toMatchObject({ status: 'rejected', reason: { message: 'ERR wrong type' } });
+    expect(get).toEqual({ status: 'fulfilled', value: '{"html":"a"}' });
+  });
+});
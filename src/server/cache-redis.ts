@@ -0,0 +1,332 @@
+import { connect, type Socket } from 'node:net';
+import type { CacheEntry, CacheStore } from './types';
+
+/**
+ * Configuration options for the Redis cache store
+ */
+export interface RedisCacheStoreOptions {
+  /**
+   * Connection URL, e.g. `redis://:password@localhost:6379/0`
+   * @default 'redis://localhost:6379'
+   */
+  url?: string;
+
+  /**
+   * Prefix added to every key so the cache can share a database
+   * @default 'ngx-bun:'
+   */
+  keyPrefix?: string;
+
+  /**
+   * Connection timeout in milliseconds
+   * @default 5000
+   */
+  connectTimeout?: number;
+}
+
+/**
+ * A decoded RESP reply
+ */
+type RespValue = string | number | null | RespValue[];
+
+/**
+ * Error reply sent by the server
+ */
+class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: string[]): Buffer {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * Decode one reply from the buffer, returning null if it is incomplete
+ */
+function decodeReply(
+  buffer: Buffer,
+  offset: number
+): [value: RespValue | RespError, next: number] | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new RespError(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return [null, next];
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return [buffer.toString('utf-8', next, next + length), next + length + 2];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return [null, next];
+      }
+      // Consume every element before surfacing an error, so the next reply
+      // starts where this one ends
+      const items: RespValue[] = [];
+      let error: RespError | null = null;
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = decodeReply(buffer, position);
+        if (!item) {
+          return null;
+        }
+        if (item[0] instanceof RespError) {
+          error ??= item[0];
+        } else {
+          items.push(item[0]);
+        }
+        position = item[1];
+      }
+      return [error ?? items, position];
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`);
+  }
+}
+
+/**
+ * Minimal RESP2 client supporting pipelined commands over a single socket
+ */
+class RespClient {
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private readonly pending: Array<{
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+  }> = [];
+
+  constructor(
+    private readonly url: URL,
+    private readonly connectTimeout: number
+  ) {}
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async command(args: string[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private send(socket: Socket, args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<Socket>((resolve, reject) => {
+      const socket = connect({
+        host: this.url.hostname || 'localhost',
+        port: Number(this.url.port || 6379),
+      });
+      socket.setTimeout(this.connectTimeout);
+
+      socket.once('timeout', () => {
+        socket.destroy(new Error(`Redis connection to ${this.url.host} timed out`));
+      });
+
+      socket.once('connect', async () => {
+        socket.setTimeout(0);
+        try {
+          if (this.url.password) {
+            const user = decodeURIComponent(this.url.username);
+            const password = decodeURIComponent(this.url.password);
+            await this.send(socket, user ? ['AUTH', user, password] : ['AUTH', password]);
+          }
+          const db = this.url.pathname.slice(1);
+          if (db) {
+            await this.send(socket, ['SELECT', db]);
+          }
+          this.socket = socket;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+
+      socket.once('error', (error) => {
+        reject(error);
+        this.failPending(error);
+      });
+
+      socket.once('close', () => {
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        this.failPending(new Error('Redis connection closed'));
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const reply = decodeReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply[1];
+      const waiter = this.pending.shift();
+      if (reply[0] instanceof RespError) {
+        waiter?.reject(reply[0]);
+      } else {
+        waiter?.resolve(reply[0]);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private failPending(error: Error): void {
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
+
+/**
+ * Cache store speaking the Redis protocol (RESP2)
+ *
+ * Works with Redis and compatible servers such as Valkey, KeyDB or Dragonfly,
+ * so several server processes can share one render cache.
+ */
+export class RedisCacheStore<T = CacheEntry> implements CacheStore<T> {
+  private readonly client: RespClient;
+  private readonly keyPrefix: string;
+
+  constructor(options: RedisCacheStoreOptions = {}) {
+    this.client = new RespClient(
+      new URL(options.url ?? 'redis://localhost:6379'),
+      options.connectTimeout ?? 5000
+    );
+    this.keyPrefix = options.keyPrefix ?? 'ngx-bun:';
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const value = await this.client.command(['GET', this.keyPrefix + key]);
+    return typeof value === 'string' ? (JSON.parse(value) as T) : undefined;
+  }
+
+  async getMany(keys: string[]): Promise<(T | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const values = (await this.client.command([
+      'MGET',
+      ...keys.map((key) => this.keyPrefix + key),
+    ])) as RespValue[];
+    return values.map((value) => (typeof value === 'string' ? (JSON.parse(value) as T) : undefined));
+  }
+
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    const args = ['SET', this.keyPrefix + key, JSON.stringify(value)];
+    if (ttl !== undefined) {
+      args.push('PX', String(Math.max(1, Math.ceil(ttl))));
+    }
+    await this.client.command(args);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const removed = await this.client.command(['DEL', this.keyPrefix + key]);
+    return removed === 1;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scan();
+    // Delete in batches to keep individual commands small
+    for (let i = 0; i < keys.length; i += 100) {
+      await this.client.command(['DEL', ...keys.slice(i, i + 100)]);
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.scan();
+    return keys.map((key) => key.slice(this.keyPrefix.length));
+  }
+
+  /**
+   * Close the connection to the server
+   */
+  close(): void {
+    this.client.close();
+  }
+
+  /**
+   * List all prefixed keys using SCAN
+   */
+  private async scan(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = (await this.client.command([
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${this.keyPrefix.replace(/[*?[\]\\]/g, '\\$&')}*`,
+        'COUNT',
+        '100',
+      ])) as [string, string[]];
+      cursor = reply[0];
+      keys.push(...reply[1]);
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+/**
+ * Factory function to create a Redis cache store
+ */
+export function createRedisCacheStore<T = CacheEntry>(
+  options?: RedisCacheStoreOptions
+): RedisCacheStore<T> {
+  return new RedisCacheStore<T>(options);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Database } from 'bun:sqlite';
+import { renderApplication } from '@angular/platform-server';
+import { SqliteCacheStore } from './cache-sqlite';
+import { BunAngularEngine } from './engine';
+
+vi.mock('@angular/platform-server', () => ({
+  renderApplication: vi.fn(),
+}));
+
+vi.mock('@angular/common', () => ({
+  PlatformLocation: class PlatformLocation {},
+}));
+
+type Row = { key: string; value: string; expires_at: number | null };
+
+/**
+ * Stand-in for a bun:sqlite database answering the store's statements
+ * from an in-memory table
+ */
+function createStandInDatabase(rows: Map<string, Row>): Database {
+  const query = (sql: string) => {
+    const statement = sql.replace(/\s+/g, ' ').trim();
+    return {
+      get: (key: string) => rows.get(key) ?? null,
+      all: () => [...rows.values()],
+      run: (...params: unknown[]) => {
+        let changes = 0;
+        if (statement.startsWith('INSERT OR REPLACE')) {
+          const [key, value, expiresAt] = params as [string, string, number | null];
+          rows.set(key, { key, value, expires_at: expiresAt });
+          changes = 1;
+        } else if (statement.endsWith('WHERE key = ?')) {
+          changes = rows.delete(params[0] as string) ? 1 : 0;
+        } else if (statement.endsWith('expires_at <= ?')) {
+          for (const [key, row] of rows) {
+            if (row.expires_at !== null && row.expires_at <= (params[0] as number)) {
+              rows.delete(key);
+              changes++;
+            }
+          }
+        }
+        return { changes };
+      },
+    };
+  };
+
+  return {
+    query,
+    exec: (sql: string) => {
+      if (sql.startsWith('DELETE')) rows.clear();
+    },
+    close: vi.fn(),
+  } as unknown as Database;
+}
+
+describe('SqliteCacheStore', () => {
+  const rows = new Map<string, Row>();
+  let store: SqliteCacheStore<{ html: string }>;
+
+  beforeEach(() => {
+    rows.clear();
+    store = new SqliteCacheStore({ database: createStandInDatabase(rows) });
+  });
+
+  it('should store and retrieve values', async () => {
+    await store.set('/about', { html: '<p>About</p>' });
+    expect(await store.get('/about')).toEqual({ html: '<p>About</p>' });
+    expect(await store.get('/missing')).toBeUndefined();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    vi.useFakeTimers();
+    try {
+      await store.set('/short', { html: '' }, 1000);
+      await store.set('/forever', { html: '' });
+      expect(await store.get('/short')).toEqual({ html: '' });
+
+      vi.advanceTimersByTime(1000);
+      expect(await store.keys()).toEqual(['/forever']);
+      expect(await store.get('/short')).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should delete and clear keys', async () => {
+    await store.set('/a', { html: 'a' });
+    await store.set('/b', { html: 'b' });
+    expect(await store.delete('/a')).toBe(true);
+    expect(await store.delete('/a')).toBe(false);
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('should reject invalid table names', () => {
+    expect(
+      () => new SqliteCacheStore({ database: createStandInDatabase(rows), table: 'x; DROP' })
+    ).toThrow('Invalid SQLite cache table name');
+  });
+
+  it('should back engine invalidation by tag and path', async () => {
+    vi.mocked(renderApplication).mockResolvedValue('<p>page</p>');
+    const engine = new BunAngularEngine({
+      bootstrap: async () => ({}),
+      browserDistFolder: '/nonexistent',
+      cacheStore: new SqliteCacheStore({ database: createStandInDatabase(rows) }),
+    });
+    const document = '<html><head></head><body></body></html>';
+
+    await engine.render({ url: '/blog/one', document, cacheTags: ['article:1'] });
+    await engine.render({ url: '/blog/two', document, cacheTags: ['article:2'] });
+    await engine.render({ url: '/about', document });
+    await vi.waitFor(() => expect(rows.size).toBe(3));
+
+    expect(await engine.invalidate({ tags: ['article:1'] })).toBe(1);
+    expect(await engine.invalidate({ paths: ['/about'] })).toBe(1);
+    expect((await engine.render({ url: '/blog/two', document })).cacheStatus).toBe('HIT');
+    expect((await engine.render({ url: '/blog/one', document })).cacheStatus).toBe('MISS');
+  });
+});
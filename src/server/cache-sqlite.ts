@@ -0,0 +1,120 @@
+import type { Database } from 'bun:sqlite';
+import type { CacheEntry, CacheStore } from './types';
+
+/**
+ * Configuration options for the SQLite cache store
+ */
+export interface SqliteCacheStoreOptions {
+  /**
+   * Path to the database file (created if missing)
+   */
+  path?: string;
+
+  /**
+   * Open database to use instead of opening `path`, such as the
+   * application's own connection
+   */
+  database?: Database;
+
+  /**
+   * Name of the table holding cache entries
+   * @default 'ngx_bun_cache'
+   */
+  table?: string;
+}
+
+/**
+ * Persistent cache store backed by bun:sqlite
+ *
+ * Entries survive restarts and can be shared by several processes on the
+ * same machine pointing at the same database file.
+ */
+export class SqliteCacheStore<T = CacheEntry> implements CacheStore<T> {
+  private readonly db: Database;
+  private readonly table: string;
+
+  constructor(options: SqliteCacheStoreOptions) {
+    this.table = options.table ?? 'ngx_bun_cache';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid SQLite cache table name: ${this.table}`);
+    }
+
+    if (options.database) {
+      this.db = options.database;
+    } else if (options.path) {
+      // Loaded lazily so the package can still be imported outside of Bun
+      const { Database: BunDatabase } = require('bun:sqlite') as typeof import('bun:sqlite');
+      this.db = new BunDatabase(options.path, { create: true });
+    } else {
+      throw new Error('The SQLite cache store needs a path or a database');
+    }
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER
+      )`
+    );
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const row = this.db
+      .query<{ value: string; expires_at: number | null }, [string]>(
+        `SELECT value, expires_at FROM ${this.table} WHERE key = ?`
+      )
+      .get(key);
+    if (!row) {
+      return undefined;
+    }
+    if (row.expires_at !== null && Date.now() >= row.expires_at) {
+      await this.delete(key);
+      return undefined;
+    }
+    return JSON.parse(row.value) as T;
+  }
+
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO ${this.table} (key, value, expires_at) VALUES (?, ?, ?)`
+      )
+      .run(key, JSON.stringify(value), ttl === undefined ? null : Date.now() + ttl);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = this.db.query(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+    return result.changes > 0;
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec(`DELETE FROM ${this.table}`);
+  }
+
+  async keys(): Promise<string[]> {
+    // Drop expired rows first so they are not reported
+    this.db
+      .query(`DELETE FROM ${this.table} WHERE expires_at IS NOT NULL AND expires_at <= ?`)
+      .run(Date.now());
+    return this.db
+      .query<{ key: string }, []>(`SELECT key FROM ${this.table}`)
+      .all()
+      .map((row) => row.key);
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Factory function to create a SQLite cache store
+ */
+export function createSqliteCacheStore<T = CacheEntry>(
+  options: SqliteCacheStoreOptions
+): SqliteCacheStore<T> {
+  return new SqliteCacheStore<T>(options);
+}
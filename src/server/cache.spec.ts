@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { LRUCache } from './cache';
+import { LRUCache, MemoryCacheStore } from './cache';
 
 describe('LRUCache', () => {
   let cache: LRUCache<string>;
@@ -27,6 +27,7 @@ describe('LRUCache', () => {
     expect(cache.get('key2')).toBe('value2');
     expect(cache.get('key3')).toBe('value3');
     expect(cache.get('key4')).toBe('value4');
+    expect(cache.evictions).toBe(1);
   });
 
   it('should update LRU order on get', () => {
@@ -46,6 +47,18 @@ describe('LRUCache', () => {
     expect(cache.get('key4')).toBe('value4');
   });
 
+  it('should not update LRU order on peek', () => {
+    cache.set('key1', 'value1');
+    cache.set('key2', 'value2');
+    cache.set('key3', 'value3');
+
+    expect(cache.peek('key1')).toBe('value1');
+    cache.set('key4', 'value4');
+
+    expect(cache.has('key1')).toBe(false);
+    expect(cache.has('key2')).toBe(true);
+  });
+
   it('should clear all entries', () => {
     cache.set('key1', 'value1');
     cache.set('key2', 'value2');
@@ -81,3 +94,15 @@ describe('LRUCache', () => {
     expect(cache.size).toBe(1);
   });
 });
+
+describe('MemoryCacheStore', () => {
+  it('should get many entries without updating LRU order', async () => {
+    const store = new MemoryCacheStore<string>(2);
+    await store.set('a', 'A');
+    await store.set('b', 'B', -1);
+
+    expect(await store.getMany(['a', 'b', 'missing'])).toEqual(['A', undefined, undefined]);
+    await store.set('c', 'C');
+    expect(await store.keys()).toEqual(['b', 'c']);
+  });
+});
@@ -1,9 +1,12 @@
+import type { CacheEntry, CacheStore } from './types';
+
 /**
  * Simple LRU (Least Recently Used) cache implementation
  * Optimized for Bun's runtime
  */
 export class LRUCache<T> {
   private cache: Map<string, T>;
+  private evicted = 0;
   readonly maxSize: number;
 
   constructor(maxSize: number) {
@@ -28,6 +31,13 @@ export class LRUCache<T> {
     return value;
   }
 
+  /**
+   * Get an item without marking it as recently used
+   */
+  peek(key: string): T | undefined {
+    return this.cache.get(key);
+  }
+
   /**
    * Set an item in the cache
    * Evicts the least recently used item if cache is full
@@ -42,6 +52,7 @@ export class LRUCache<T> {
       const firstKey = this.cache.keys().next().value;
       if (firstKey !== undefined) {
         this.cache.delete(firstKey);
+        this.evicted++;
       }
     }
 
@@ -76,6 +87,13 @@ export class LRUCache<T> {
     return this.cache.size;
   }
 
+  /**
+   * Number of items evicted to make room for new ones
+   */
+  get evictions(): number {
+    return this.evicted;
+  }
+
   /**
    * Get all keys in the cache
    */
@@ -97,3 +115,78 @@ export class LRUCache<T> {
     return this.cache.entries();
   }
 }
+
+/**
+ * Stored value with its expiry time
+ */
+interface MemoryCacheRecord<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache store backed by an LRU cache
+ *
+ * This is the default store used by the engine. Entries are lost when the
+ * process exits and are not shared between processes.
+ */
+export class MemoryCacheStore<T = CacheEntry> implements CacheStore<T> {
+  private readonly lru: LRUCache<MemoryCacheRecord<T>>;
+
+  constructor(maxSize = 100) {
+    this.lru = new LRUCache<MemoryCacheRecord<T>>(maxSize);
+  }
+
+  /**
+   * Maximum number of entries kept in memory
+   */
+  get maxSize(): number {
+    return this.lru.maxSize;
+  }
+
+  /**
+   * Number of entries evicted because the store was full
+   */
+  get evictions(): number {
+    return this.lru.evictions;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const record = this.lru.get(key);
+    if (!record) {
+      return undefined;
+    }
+    if (Date.now() >= record.expiresAt) {
+      this.lru.delete(key);
+      return undefined;
+    }
+    return record.value;
+  }
+
+  async getMany(keys: string[]): Promise<(T | undefined)[]> {
+    const now = Date.now();
+    return keys.map((key) => {
+      const record = this.lru.peek(key);
+      return record && now < record.expiresAt ? record.value : undefined;
+    });
+  }
+
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    this.lru.set(key, {
+      value,
+      expiresAt: ttl === undefined ? Infinity : Date.now() + ttl,
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.lru.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.lru.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.lru.keys()];
+  }
+}
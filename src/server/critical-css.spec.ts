@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CriticalCssInliner, extractCriticalCss } from './critical-css';
+
+const css = `
+@charset "utf-8";
+/* layout */
+body { margin: 0; }
+.hero, .unused { color: red; }
+#main > .card:hover { padding: 1rem; }
+.modal { display: none; }
+input[type="text"] { border: 1px solid; }
+@media (min-width: 768px) {
+  .hero { font-size: 2rem; }
+  .sidebar { width: 20rem; }
+}
+.spinner { animation: spin 1s linear infinite; }
+@keyframes spin { from { transform: rotate(0); } to { transform: rotate(360deg); } }
+@keyframes fade { from { opacity: 0; } to { opacity: 1; } }
+@font-face { font-family: Inter; src: url(inter.woff2); }
+`;
+
+const html = `<!doctype html><html><head>
+<link rel="stylesheet" href="styles.css">
+</head><body><main id="main"><div class="hero card">Hi</div>
+<span class="spinner"></span><input type="text"></main></body></html>`;
+
+describe('extractCriticalCss', () => {
+  const critical = extractCriticalCss(html, css);
+
+  it('should keep rules matching the markup', () => {
+    expect(critical).toContain('body{margin: 0;}');
+    expect(critical).toContain('.hero, .unused{color: red;}');
+    expect(critical).toContain('#main > .card:hover{padding: 1rem;}');
+    expect(critical).toContain('input[type="text"]');
+  });
+
+  it('should drop unused rules and at-rules', () => {
+    expect(critical).not.toContain('.modal');
+    expect(critical).not.toContain('.sidebar');
+    expect(critical).not.toContain('@font-face');
+    expect(critical).not.toContain('@charset');
+    expect(critical).not.toContain('layout');
+  });
+
+  it('should keep media queries and referenced keyframes', () => {
+    expect(critical).toContain('@media (min-width: 768px){.hero{font-size: 2rem;}}');
+    expect(critical).toContain('@keyframes spin');
+    expect(critical).not.toContain('@keyframes fade');
+  });
+});
+
+describe('CriticalCssInliner', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ngx-bun-css-'));
+    await writeFile(join(dir, 'styles.css'), css);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should inline critical CSS and load the stylesheet asynchronously', async () => {
+    const output = await new CriticalCssInliner(dir).inline(html);
+
+    expect(output).toMatch(/<style>body\{margin: 0;\}.*<\/style><link rel="stylesheet"/s);
+    expect(output).toContain(
+      `<link rel="stylesheet" href="styles.css" media="print" onload="this.media='all'">`
+    );
+    expect(output).toContain('<noscript><link rel="stylesheet" href="styles.css"></noscript>');
+  });
+
+  it('should defer stylesheets without inline handlers when given a nonce', async () => {
+    const inliner = new CriticalCssInliner(dir);
+    const output = await inliner.inline(html, 'abc');
+
+    expect(output).toMatch(/<style nonce="abc">body\{margin: 0;\}.*<\/style><script nonce="abc">/s);
+    expect(output).toContain(
+      '<link rel="stylesheet" href="styles.css" media="print" ngCspMedia="all">'
+    );
+    expect(output).not.toContain('onload');
+    expect(await inliner.inline(output, 'abc')).toBe(output);
+  });
+
+  it('should be a no-op for processed pages', async () => {
+    const inliner = new CriticalCssInliner(dir);
+    const once = await inliner.inline(html);
+    expect(await inliner.inline(once)).toBe(once);
+  });
+
+  it('should inline CSS containing replacement patterns literally', async () => {
+    await writeFile(join(dir, 'quotes.css'), `.a::after{content:"$'"}`);
+    const page = '<head><link rel="stylesheet" href="quotes.css"></head><body><p class="a"></p></body>';
+
+    const output = await new CriticalCssInliner(dir).inline(page);
+    expect(output).toContain(`<style>.a::after{content:"$'"}</style>`);
+    expect(output.endsWith('</noscript></head><body><p class="a"></p></body>')).toBe(true);
+  });
+
+  it('should leave remote, missing and out-of-root stylesheets alone', async () => {
+    const page = [
+      '<link rel="stylesheet" href="https://cdn.example/x.css">',
+      '<link rel="stylesheet" href="missing.css">',
+      '<link rel="stylesheet" href="../../etc/passwd">',
+    ].join('');
+    expect(await new CriticalCssInliner(dir).inline(page)).toBe(page);
+  });
+});
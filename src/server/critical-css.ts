@@ -0,0 +1,328 @@
+import { readFile } from 'node:fs/promises';
+import { resolve, sep } from 'node:path';
+
+/**
+ * Tag names, classes, ids and attribute names used by a document
+ */
+interface DocumentTokens {
+  tags: Set<string>;
+  classes: Set<string>;
+  ids: Set<string>;
+  attributes: Set<string>;
+}
+
+/**
+ * Top-level CSS statement: a rule with a block, or an at-rule without one
+ */
+interface CssStatement {
+  prelude: string;
+  block: string | null;
+}
+
+const TAG_PATTERN = /<([a-zA-Z][\w-]*)((?:\s+[^>]*)?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const LINK_PATTERN = /<link\b[^>]*>/gi;
+
+// Applies the media of deferred stylesheets once they load, for pages whose
+// CSP blocks inline event handlers
+const CSP_MEDIA_SCRIPT =
+  "(()=>{const l=e=>{const t=e.target;if(t&&t.tagName==='LINK'&&t.hasAttribute('ngCspMedia'))" +
+  "{t.media=t.getAttribute('ngCspMedia');t.removeAttribute('ngCspMedia');}};" +
+  "document.documentElement.addEventListener('load',l,true);})();";
+
+// At-rules whose blocks contain style rules
+const GROUPING_AT_RULES = /^@(media|supports|layer|container|document|scope)\b/i;
+
+/**
+ * Collect the tokens selectors are matched against
+ */
+function collectTokens(html: string): DocumentTokens {
+  const tokens: DocumentTokens = {
+    tags: new Set(),
+    classes: new Set(),
+    ids: new Set(),
+    attributes: new Set(),
+  };
+
+  for (const [, tag, attributes] of html.matchAll(TAG_PATTERN)) {
+    tokens.tags.add(tag.toLowerCase());
+    for (const [, name, ...values] of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+      const attribute = name.toLowerCase();
+      const value = values.find((v) => v !== undefined) ?? '';
+      tokens.attributes.add(attribute);
+      if (attribute === 'class') {
+        value.split(/\s+/).filter(Boolean).forEach((c) => tokens.classes.add(c));
+      } else if (attribute === 'id') {
+        tokens.ids.add(value);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Get the value of an attribute in a single tag
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  for (const [, attribute, ...values] of tag.matchAll(ATTRIBUTE_PATTERN)) {
+    if (attribute.toLowerCase() === name) {
+      return values.find((v) => v !== undefined) ?? '';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split a stylesheet into top-level statements, dropping comments
+ */
+function parseStatements(css: string): CssStatement[] {
+  const statements: CssStatement[] = [];
+  let prelude = '';
+  let i = 0;
+
+  while (i < css.length) {
+    const char = css[i];
+
+    if (char === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 2;
+    } else if (char === '"' || char === "'") {
+      const start = i++;
+      while (i < css.length && css[i] !== char) {
+        i += css[i] === '\\' ? 2 : 1;
+      }
+      prelude += css.slice(start, ++i);
+    } else if (char === ';') {
+      if (prelude.trim()) statements.push({ prelude: prelude.trim(), block: null });
+      prelude = '';
+      i++;
+    } else if (char === '{') {
+      // Find the matching closing brace
+      let depth = 1;
+      const start = ++i;
+      while (i < css.length && depth > 0) {
+        if (css[i] === '/' && css[i + 1] === '*') {
+          const end = css.indexOf('*/', i + 2);
+          i = end === -1 ? css.length : end + 2;
+          continue;
+        }
+        if (css[i] === '"' || css[i] === "'") {
+          const quote = css[i++];
+          while (i < css.length && css[i] !== quote) {
+            i += css[i] === '\\' ? 2 : 1;
+          }
+        } else if (css[i] === '{') {
+          depth++;
+        } else if (css[i] === '}') {
+          depth--;
+        }
+        i++;
+      }
+      statements.push({ prelude: prelude.trim(), block: css.slice(start, i - 1) });
+      prelude = '';
+    } else {
+      prelude += char;
+      i++;
+    }
+  }
+  return statements;
+}
+
+/**
+ * Split a selector list on top-level commas
+ */
+function splitSelectors(selectorList: string): string[] {
+  const selectors: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of selectorList) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      selectors.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  selectors.push(current);
+  return selectors.map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a selector may match the document
+ *
+ * Pseudo-classes and pseudo-elements are ignored, so the check errs on the
+ * side of keeping rules.
+ */
+function selectorMatches(selector: string, tokens: DocumentTokens): boolean {
+  const simplified = selector
+    .replace(/\[[^\]]*\]/g, (attribute) => `[${attribute.slice(1).split(/[~|^$*]?=/)[0]}]`)
+    .replace(/::?[\w-]+(\((?:[^()]|\([^()]*\))*\))?/g, '');
+
+  for (const compound of simplified.split(/\s*[\s>+~]\s*/)) {
+    const tag = compound.match(/^[a-zA-Z][\w-]*/)?.[0];
+    if (tag && !tokens.tags.has(tag.toLowerCase())) return false;
+
+    for (const [, name] of compound.matchAll(/\.((?:\\.|[\w-])+)/g)) {
+      if (!tokens.classes.has(name.replace(/\\(.)/g, '$1'))) return false;
+    }
+    for (const [, name] of compound.matchAll(/#((?:\\.|[\w-])+)/g)) {
+      if (!tokens.ids.has(name.replace(/\\(.)/g, '$1'))) return false;
+    }
+    for (const [, name] of compound.matchAll(/\[\s*([\w-]+)/g)) {
+      if (!tokens.attributes.has(name.toLowerCase())) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Keep the statements of a stylesheet used by the document
+ */
+function filterStatements(css: string, tokens: DocumentTokens): string {
+  let output = '';
+  for (const { prelude, block } of parseStatements(css)) {
+    if (block === null) {
+      continue; // @import and @charset
+    }
+    if (GROUPING_AT_RULES.test(prelude)) {
+      const inner = filterStatements(block, tokens);
+      if (inner) output += `${prelude}{${inner}}`;
+    } else if (prelude.startsWith('@')) {
+      // Keyframes are kept for now and pruned once the used rules are known
+      if (/^@(-\w+-)?keyframes\b/i.test(prelude)) output += `${prelude}{${block}}`;
+    } else if (splitSelectors(prelude).some((s) => selectorMatches(s, tokens))) {
+      output += `${prelude}{${block.trim()}}`;
+    }
+  }
+  return output;
+}
+
+/**
+ * Drop keyframes no inlined rule refers to
+ */
+function pruneKeyframes(css: string): string {
+  const statements = parseStatements(css);
+  const rules = statements.filter(({ prelude }) => !/^@(-\w+-)?keyframes\b/i.test(prelude));
+  const used = rules.map(({ block }) => block ?? '').join(';');
+
+  return statements
+    .filter(({ prelude }) => {
+      const name = prelude.match(/^@(?:-\w+-)?keyframes\s+(\S+)/i)?.[1];
+      return !name || new RegExp(`animation[^;]*\\b${name.replace(/\W/g, '\\$&')}\\b`).test(used);
+    })
+    .map(({ prelude, block }) => `${prelude}{${block}}`)
+    .join('');
+}
+
+/**
+ * Collapse whitespace in CSS
+ */
+function minifyCss(css: string): string {
+  return css
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([{};])\s*/g, '$1')
+    .trim();
+}
+
+/**
+ * Extract the CSS rules used by an HTML document
+ */
+export function extractCriticalCss(html: string, css: string): string {
+  return minifyCss(pruneKeyframes(filterStatements(css, collectTokens(html))));
+}
+
+/**
+ * CriticalCssInliner - Inlines the CSS used by rendered pages
+ *
+ * Local stylesheets linked from the page are read from the browser
+ * distribution folder. The rules used by the markup are inlined in a
+ * `<style>` element and the links are rewritten to load asynchronously,
+ * with a `<noscript>` fallback. Links that already load asynchronously are
+ * left alone, so inlining a page twice is a no-op.
+ *
+ * With a CSP nonce, the links are switched to their media by a nonced
+ * script instead of an inline `onload` handler the policy would block.
+ */
+export class CriticalCssInliner {
+  private readonly root: string;
+  private readonly stylesheets = new Map<string, Promise<string | null>>();
+
+  constructor(browserDistFolder: string) {
+    this.root = resolve(browserDistFolder);
+  }
+
+  /**
+   * Inline the critical CSS of a page
+   *
+   * @param nonce - CSP nonce of the page, stamped onto the added elements
+   */
+  async inline(html: string, nonce?: string): Promise<string> {
+    const links: { tag: string; css: string }[] = [];
+    // Links inside <noscript> are fallbacks of already processed links
+    const scripted = html.replace(/<noscript\b[\s\S]*?<\/noscript>/gi, '');
+    for (const [tag] of scripted.matchAll(LINK_PATTERN)) {
+      const rel = getAttribute(tag, 'rel')?.toLowerCase().split(/\s+/);
+      const href = getAttribute(tag, 'href');
+      const deferred =
+        getAttribute(tag, 'onload') !== undefined || getAttribute(tag, 'ngcspmedia') !== undefined;
+      if (!rel?.includes('stylesheet') || !href || deferred) {
+        continue;
+      }
+      const css = await this.readStylesheet(href);
+      if (css !== null) {
+        links.push({ tag, css });
+      }
+    }
+    if (links.length === 0) {
+      return html;
+    }
+
+    const critical = extractCriticalCss(html, links.map(({ css }) => css).join('\n'));
+    const nonceAttribute = nonce ? ` nonce="${nonce}"` : '';
+    const loader = nonce ? ` ngCspMedia="all"` : ` onload="this.media='all'"`;
+    let output = html;
+    links.forEach(({ tag }, index) => {
+      const async = tag
+        .replace(/\s(media|onload)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+        .replace(/\s*\/?>$/, ` media="print"${loader}>`);
+      let inserted = index === 0 && critical ? `<style${nonceAttribute}>${critical}</style>` : '';
+      if (index === 0 && nonce) {
+        inserted += `<script${nonceAttribute}>${CSP_MEDIA_SCRIPT}</script>`;
+      }
+      // A replacer function keeps `$` sequences in the CSS literal
+      output = output.replace(tag, () => `${inserted}${async}<noscript>${tag}</noscript>`);
+    });
+    return output;
+  }
+
+  /**
+   * Forget cached stylesheets (after a rebuild)
+   */
+  clear(): void {
+    this.stylesheets.clear();
+  }
+
+  /**
+   * Read a local stylesheet, or null if it is remote or missing
+   */
+  private readStylesheet(href: string): Promise<string | null> {
+    if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(href)) {
+      return Promise.resolve(null);
+    }
+
+    const pathname = decodeURIComponent(href.split(/[?#]/)[0]).replace(/^\/+/, '');
+    const path = resolve(this.root, pathname);
+    if (!path.startsWith(this.root + sep)) {
+      return Promise.resolve(null);
+    }
+
+    let css = this.stylesheets.get(path);
+    if (!css) {
+      css = readFile(path, 'utf-8').catch(() => null);
+      this.stylesheets.set(path, css);
+    }
+    return css;
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CSP_POLICY,
+  generateNonce,
+  getCspHeader,
+  replaceNonce,
+  stampNonce,
+  stampRootNonce,
+} from './csp';
+
+describe('generateNonce', () => {
+  it('should generate distinct base64 nonces', () => {
+    const nonce = generateNonce();
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(generateNonce()).not.toBe(nonce);
+  });
+});
+
+describe('stampNonce', () => {
+  it('should stamp scripts, styles and stylesheet links', () => {
+    const html = stampNonce(
+      [
+        '<style>.a{}</style>',
+        '<script>replay()</script>',
+        '<script src="main.js" type="module"></script>',
+        '<link rel="stylesheet" href="styles.css">',
+        '<link rel="modulepreload" href="chunk.js">',
+        '<link rel="icon" href="favicon.ico">',
+      ].join(''),
+      'abc'
+    );
+    expect(html).toContain('<style nonce="abc">');
+    expect(html).toContain('<script nonce="abc">replay()</script>');
+    expect(html).toContain('<script nonce="abc" src="main.js" type="module">');
+    expect(html).toContain('<link nonce="abc" rel="stylesheet" href="styles.css">');
+    expect(html).toContain('<link nonce="abc" rel="modulepreload" href="chunk.js">');
+    expect(html).toContain('<link rel="icon" href="favicon.ico">');
+  });
+
+  it('should replace nonces from a previous render', () => {
+    const cached = '<app-root ngCspNonce="old"></app-root><style nonce="old">.a{}</style>';
+    expect(stampNonce(cached, 'new')).toBe(
+      '<app-root ngCspNonce="new"></app-root><style nonce="new">.a{}</style>'
+    );
+  });
+
+});
+
+describe('stampRootNonce', () => {
+  it('should add ngCspNonce to the bootstrapped root component', () => {
+    expect(stampRootNonce('<body><app-root ng-version="22.2.0"></app-root></body>', 'abc')).toBe(
+      '<body><app-root ng-version="22.2.0" ngCspNonce="abc"></app-root></body>'
+    );
+  });
+
+  it('should keep an existing ngCspNonce', () => {
+    const html = '<app-root ngCspNonce="abc" ng-version="22.2.0"></app-root>';
+    expect(stampRootNonce(html, 'abc')).toBe(html);
+  });
+});
+
+describe('replaceNonce', () => {
+  it('should only swap attributes carrying the previous nonce', () => {
+    const html =
+      '<app-root ngCspNonce="a+b/"><style nonce="a+b/">.a{}</style>' +
+      '<script>alert("a+b/")</script><script nonce="other"></script></app-root>';
+    expect(replaceNonce(html, 'a+b/', 'new')).toBe(
+      '<app-root ngCspNonce="new"><style nonce="new">.a{}</style>' +
+        '<script>alert("a+b/")</script><script nonce="other"></script></app-root>'
+    );
+  });
+});
+
+describe('getCspHeader', () => {
+  it('should fill the nonce into the default policy', () => {
+    const [name, value] = getCspHeader({}, 'abc');
+    expect(name).toBe('Content-Security-Policy');
+    expect(value).toBe(DEFAULT_CSP_POLICY.replace(/\{nonce\}/g, 'abc'));
+    expect(value).toContain("'nonce-abc'");
+  });
+
+  it('should support report-only and policy functions', () => {
+    const options = { policy: (n: string) => `script-src 'nonce-${n}'`, reportOnly: true };
+    expect(getCspHeader(options, 'x')).toEqual([
+      'Content-Security-Policy-Report-Only',
+      "script-src 'nonce-x'",
+    ]);
+  });
+});
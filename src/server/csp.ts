@@ -0,0 +1,132 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Content-Security-Policy options
+ */
+export interface CspOptions {
+  /**
+   * Policy sent with rendered pages. `{nonce}` is replaced by the nonce of
+   * the response.
+   * @default DEFAULT_CSP_POLICY
+   */
+  policy?: string | ((nonce: string) => string);
+
+  /**
+   * Send the policy as Content-Security-Policy-Report-Only
+   * @default false
+   */
+  reportOnly?: boolean;
+}
+
+/**
+ * Strict nonce-based policy used when no policy is configured
+ */
+export const DEFAULT_CSP_POLICY =
+  "default-src 'self'; " +
+  "script-src 'self' 'nonce-{nonce}' 'strict-dynamic'; " +
+  "style-src 'self' 'nonce-{nonce}'; " +
+  "object-src 'none'; " +
+  "base-uri 'self'";
+
+const NONCE_TAG_PATTERN = /<(script|style|link)\b([^>]*)>/gi;
+const NONCE_ATTRIBUTE_PATTERN = /\snonce\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi;
+const NG_CSP_NONCE_PATTERN = /(\sngCspNonce\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+)/gi;
+const ROOT_ELEMENT_PATTERN = /<([a-zA-Z][\w-]*)(\s(?:[^>]*?\s)?ng-version\b[^>]*?)(\/?)>/;
+
+// Link relations loading scripts or styles
+const NONCE_LINK_REL = /\srel\s*=\s*["']?[^"'>]*\b(stylesheet|modulepreload|preload)\b/i;
+
+/**
+ * Generate a cryptographically random nonce
+ */
+export function generateNonce(): string {
+  return randomBytes(16).toString('base64');
+}
+
+/**
+ * Stamp a nonce onto the scripts, styles and stylesheet links of a document
+ * template and onto its `ngCspNonce` attributes
+ *
+ * Only for markup the server controls: the template is stamped before
+ * rendering, so tags coming from rendered content never get the nonce.
+ * Existing nonces are replaced.
+ */
+export function stampNonce(html: string, nonce: string): string {
+  return html
+    .replace(NONCE_TAG_PATTERN, (tag, name: string, attributes: string) => {
+      if (name.toLowerCase() === 'link' && !NONCE_LINK_REL.test(attributes)) {
+        return tag;
+      }
+      return `<${name} nonce="${nonce}"${attributes.replace(NONCE_ATTRIBUTE_PATTERN, '')}>`;
+    })
+    .replace(NG_CSP_NONCE_PATTERN, (_attribute, name: string) => `${name}"${nonce}"`);
+}
+
+/**
+ * Add an `ngCspNonce` attribute to the bootstrapped root component of a
+ * rendered document, unless it already has one
+ *
+ * The browser application reads it to nonce the styles it adds at runtime.
+ */
+export function stampRootNonce(html: string, nonce: string): string {
+  return html.replace(
+    ROOT_ELEMENT_PATTERN,
+    (tag, name: string, attributes: string, selfClosing: string) =>
+      /\sngCspNonce\s*=/i.test(attributes)
+        ? tag
+        : `<${name}${attributes} ngCspNonce="${nonce}"${selfClosing}>`
+  );
+}
+
+/**
+ * Swap the nonce a page was rendered with for another one
+ *
+ * Only `nonce` and `ngCspNonce` attributes carrying the previous nonce are
+ * changed, so tags the render didn't nonce stay untrusted.
+ */
+export function replaceNonce(html: string, previous: string, nonce: string): string {
+  if (previous === nonce) {
+    return html;
+  }
+  const escaped = previous.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return html.replace(
+    new RegExp(`(\\s(?:nonce|ngCspNonce)\\s*=\\s*["']?)${escaped}(?=["'\\s>])`, 'gi'),
+    (_attribute, name: string) => `${name}${nonce}`
+  );
+}
+
+/**
+ * Swap the nonce of a streamed document
+ *
+ * Document streams are chunked on tag boundaries, so each chunk can be
+ * processed on its own.
+ */
+export function replaceNonceStream(
+  stream: ReadableStream<Uint8Array>,
+  previous: string,
+  nonce: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(encoder.encode(replaceNonce(decoder.decode(chunk), previous, nonce)));
+      },
+    })
+  );
+}
+
+/**
+ * Get the Content-Security-Policy header for a response nonce
+ */
+export function getCspHeader(options: CspOptions, nonce: string): [name: string, value: string] {
+  const policy =
+    typeof options.policy === 'function'
+      ? options.policy(nonce)
+      : (options.policy ?? DEFAULT_CSP_POLICY).replace(/\{nonce\}/g, nonce);
+  const name = options.reportOnly
+    ? 'Content-Security-Policy-Report-Only'
+    : 'Content-Security-Policy';
+  return [name, policy];
+}
@@ -0,0 +1,975 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { renderApplication } from '@angular/platform-server';
+import {
+  CSP_NONCE,
+  REQUEST,
+  REQUEST_CONTEXT,
+  type StaticProvider,
+  type ValueProvider,
+} from '@angular/core';
+import { BunAngularEngine } from './engine';
+import { MemoryCacheStore } from './cache';
+import { SERVER_HTTP_CONTEXT, SERVER_RESPONSE, TRACE_PARENT } from './tokens';
+import type { ServerResponseInit } from './response';
+import type { ServerHttpContext } from './http';
+import type { HtmlTransformContext } from './transforms';
+import type { FinishedSpan } from './tracing';
+import type { BunAngularEngineOptions, CacheEntry, CacheStore } from './types';
+
+vi.mock('@angular/platform-server', () => ({
+  renderApplication: vi.fn(),
+}));
+
+vi.mock('@angular/common', () => ({
+  PlatformLocation: class PlatformLocation {},
+}));
+
+const render = vi.mocked(renderApplication);
+const document = '<!doctype html><html><head></head><body><app-root></app-root></body></html>';
+
+function createEngine(options: Partial<BunAngularEngineOptions> = {}): BunAngularEngine {
+  return new BunAngularEngine({
+    bootstrap: async () => ({}),
+    browserDistFolder: '/nonexistent',
+    cacheTtl: 1000,
+    ...options,
+  });
+}
+
+/**
+ * Get the value provided for a token in a list of platform providers
+ */
+function findProvided<T>(options: unknown, token: unknown): T {
+  const { platformProviders } = options as { platformProviders: StaticProvider[] };
+  const provider = platformProviders.find(
+    (p) => (p as ValueProvider).provide === token
+  ) as ValueProvider;
+  return provider.useValue as T;
+}
+
+/**
+ * Get the value provided for a token in a render call
+ */
+function provided<T>(call: number, token: unknown): T {
+  return findProvided<T>(render.mock.calls[call][1], token);
+}
+
+/**
+ * Let pending background work (revalidation, cache writes) settle
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('BunAngularEngine caching', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    render.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should report MISS then HIT', async () => {
+    render.mockResolvedValue('<p>v1</p>');
+    const engine = createEngine();
+
+    const first = await engine.render({ url: '/', document });
+    await flush();
+    const second = await engine.render({ url: '/', document });
+
+    expect(first.cacheStatus).toBe('MISS');
+    expect(second.cacheStatus).toBe('HIT');
+    expect(second.html).toBe('<p>v1</p>');
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the pages of locales sharing a store apart', async () => {
+    render.mockResolvedValueOnce('<p>de</p>').mockResolvedValueOnce('<p>fr</p>');
+    const cacheStore = new MemoryCacheStore<CacheEntry>(10);
+    const de = createEngine({ cacheStore, locale: 'de' });
+    const fr = createEngine({ cacheStore, locale: 'fr' });
+
+    await de.render({ url: '/', document });
+    await fr.render({ url: '/', document });
+    await flush();
+
+    expect(await cacheStore.keys()).toEqual(['/|locale=de', '/|locale=fr']);
+    expect((await de.render({ url: '/', document })).html).toBe('<p>de</p>');
+    expect(await de.getCacheStats()).toMatchObject({ size: 1 });
+    expect(await fr.invalidate({ paths: ['/'] })).toBe(1);
+    expect(await cacheStore.keys()).toEqual(['/|locale=de']);
+  });
+
+  it('should report BYPASS when the cache is skipped', async () => {
+    render.mockResolvedValue('<p>v1</p>');
+    const engine = createEngine();
+
+    const result = await engine.render({ url: '/', document, skipCache: true });
+    expect(result.cacheStatus).toBe('BYPASS');
+  });
+
+  it('should replace fresh entries with refreshCache', async () => {
+    render.mockResolvedValueOnce('<p>v1</p>').mockResolvedValueOnce('<p>v2</p>');
+    const engine = createEngine();
+
+    await engine.render({ url: '/', document });
+    await flush();
+    const refreshed = await engine.render({ url: '/', document, refreshCache: true });
+    await flush();
+    const cached = await engine.render({ url: '/', document });
+
+    expect(refreshed.cacheStatus).toBe('MISS');
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.html).toBe('<p>v2</p>');
+  });
+
+  it('should serve stale pages while revalidating in the background', async () => {
+    render.mockResolvedValueOnce('<p>v1</p>').mockResolvedValueOnce('<p>v2</p>');
+    const engine = createEngine({ staleWhileRevalidate: 5000 });
+
+    await engine.render({ url: '/', document });
+    await flush();
+    vi.advanceTimersByTime(2000);
+
+    const stale = await engine.render({ url: '/', document });
+    expect(stale.cacheStatus).toBe('STALE');
+    expect(stale.html).toBe('<p>v1</p>');
+
+    await flush();
+    const fresh = await engine.render({ url: '/', document });
+    expect(fresh.cacheStatus).toBe('HIT');
+    expect(fresh.html).toBe('<p>v2</p>');
+  });
+
+  it('should keep the stale entry when revalidation fails', async () => {
+    render.mockResolvedValueOnce('<p>v1</p>').mockRejectedValueOnce(new Error('down'));
+    const engine = createEngine({ staleWhileRevalidate: 5000 });
+
+    await engine.render({ url: '/', document });
+    await flush();
+    vi.advanceTimersByTime(2000);
+
+    await engine.render({ url: '/', document });
+    await flush();
+    const result = await engine.render({ url: '/', document });
+    expect(result.cacheStatus).toBe('STALE');
+    expect(result.html).toBe('<p>v1</p>');
+  });
+
+  it('should serve stale pages when a blocking render fails within staleIfError', async () => {
+    render.mockResolvedValueOnce('<p>v1</p>').mockRejectedValueOnce(new Error('down'));
+    const engine = createEngine({ staleIfError: 5000 });
+
+    await engine.render({ url: '/', document });
+    await flush();
+    vi.advanceTimersByTime(2000);
+
+    const result = await engine.render({ url: '/', document });
+    expect(result.status).toBe(200);
+    expect(result.cacheStatus).toBe('STALE');
+    expect(result.html).toBe('<p>v1</p>');
+  });
+
+  it('should render an error page once entries are past every window', async () => {
+    render.mockResolvedValueOnce('<p>v1</p>').mockRejectedValueOnce(new Error('down'));
+    const engine = createEngine({ staleIfError: 5000 });
+
+    await engine.render({ url: '/', document });
+    await flush();
+    vi.advanceTimersByTime(7000);
+
+    const result = await engine.render({ url: '/', document });
+    expect(result.status).toBe(500);
+    expect(result.cacheStatus).toBe('MISS');
+  });
+});
+
+describe('BunAngularEngine invalidation', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockResolvedValue('<p>page</p>');
+  });
+
+  async function warm(engine: BunAngularEngine, url: string, cacheTags?: string[]) {
+    await engine.render({ url, document, cacheTags });
+    await flush();
+  }
+
+  it('should remove entries by tag, path and prefix', async () => {
+    const engine = createEngine();
+    await warm(engine, '/blog/one', ['article:1']);
+    await warm(engine, '/blog/two', ['article:2']);
+    await warm(engine, '/about');
+    await warm(engine, '/docs/a');
+    await warm(engine, '/docs/b?page=2');
+
+    expect(await engine.invalidate({ tags: ['article:1'] })).toBe(1);
+    expect(await engine.invalidate({ paths: ['/about'] })).toBe(1);
+    expect(await engine.invalidate({ prefix: '/docs/' })).toBe(2);
+
+    expect((await engine.render({ url: '/blog/two', document })).cacheStatus).toBe('HIT');
+    expect((await engine.render({ url: '/blog/one', document })).cacheStatus).toBe('MISS');
+  });
+
+  it('should read entries with getMany when the store has it', async () => {
+    const cacheStore = new MemoryCacheStore<CacheEntry>();
+    const engine = createEngine({ cacheStore });
+    await warm(engine, '/about');
+    await warm(engine, '/blog');
+    const get = vi.spyOn(cacheStore, 'get');
+    const getMany = vi.spyOn(cacheStore, 'getMany');
+
+    expect(await engine.invalidate({ paths: ['/about'] })).toBe(1);
+    expect(get).not.toHaveBeenCalled();
+    expect(getMany).toHaveBeenCalledWith(['/about', '/blog']);
+  });
+
+  it('should attach tags from getCacheTags', async () => {
+    const engine = createEngine({
+      getCacheTags: (url) => (url.pathname.startsWith('/shop') ? ['shop'] : []),
+    });
+    await warm(engine, '/shop/item');
+    await warm(engine, '/home');
+
+    expect(await engine.invalidate({ tags: ['shop'] })).toBe(1);
+  });
+});
+
+describe('BunAngularEngine response init', () => {
+  beforeEach(() => {
+    render.mockReset();
+  });
+
+  function respondWith(update: (response: ServerResponseInit) => void) {
+    render.mockImplementation(async (_bootstrap, options) => {
+      update(findProvided<ServerResponseInit>(options, SERVER_RESPONSE));
+      return '<p>page</p>';
+    });
+  }
+
+  it('should apply the status and headers set during rendering', async () => {
+    respondWith((response) => {
+      response.status = 404;
+      response.headers.set('Content-Type', 'text/html');
+      response.headers.set('X-Robots-Tag', 'noindex');
+    });
+    const engine = createEngine();
+
+    const result = await engine.render({ url: '/missing', document });
+    expect(result.status).toBe(404);
+    expect(result.headers).toMatchObject({
+      'content-type': 'text/html',
+      'x-robots-tag': 'noindex',
+    });
+    expect(result.headers['Content-Type']).toBeUndefined();
+  });
+
+  it('should not cache error statuses by default', async () => {
+    respondWith((response) => {
+      response.status = 404;
+    });
+    const engine = createEngine();
+
+    await engine.render({ url: '/missing', document });
+    await flush();
+    expect((await engine.render({ url: '/missing', document })).cacheStatus).toBe('MISS');
+  });
+
+  it('should cache statuses listed in cacheableStatuses', async () => {
+    respondWith((response) => {
+      response.status = 404;
+    });
+    const engine = createEngine({ cacheableStatuses: [200, 404] });
+
+    await engine.render({ url: '/missing', document });
+    await flush();
+    const cached = await engine.render({ url: '/missing', document });
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.status).toBe(404);
+  });
+
+  it('should return cookies and skip caching pages that set them', async () => {
+    respondWith((response) => {
+      response.setCookie('visited', '1', { httpOnly: true });
+    });
+    const engine = createEngine();
+
+    const result = await engine.render({ url: '/', document });
+    expect(result.cookies).toEqual(['visited=1; Path=/; HttpOnly']);
+
+    await flush();
+    expect((await engine.render({ url: '/', document })).cacheStatus).toBe('MISS');
+    expect(provided<ServerResponseInit>(1, SERVER_RESPONSE)).not.toBe(
+      provided<ServerResponseInit>(0, SERVER_RESPONSE)
+    );
+  });
+});
+
+describe('BunAngularEngine redirects', () => {
+  beforeEach(() => {
+    render.mockReset();
+  });
+
+  /**
+   * Create an engine whose router ends the navigation on the given URL
+   */
+  function createRedirectEngine(
+    finalUrl: { pathname: string; search?: string },
+    options: Partial<BunAngularEngineOptions> = {}
+  ) {
+    render.mockImplementation(async (bootstrap) => {
+      await (bootstrap as unknown as (context: unknown) => Promise<unknown>)({ platformRef: {} });
+      return '<p>destination</p>';
+    });
+    return createEngine({
+      bootstrap: async () => ({
+        injector: { get: () => ({ pathname: finalUrl.pathname, search: finalUrl.search ?? '' }) },
+      }),
+      ...options,
+    });
+  }
+
+  it('should turn router redirects into 302 responses', async () => {
+    const engine = createRedirectEngine({ pathname: '/login', search: '?next=%2Faccount' });
+
+    const result = await engine.render({ url: '/account', document });
+    expect(result.status).toBe(302);
+    expect(result.headers['Location']).toBe('/login?next=%2Faccount');
+    expect(result.html).toBe('');
+  });
+
+  it('should use the configured redirect status', async () => {
+    const engine = createRedirectEngine({ pathname: '/new' }, { redirectStatus: 301 });
+
+    expect((await engine.render({ url: '/old', document })).status).toBe(301);
+    expect(
+      (await engine.render({ url: '/old', document, skipCache: true, redirectStatus: 307 })).status
+    ).toBe(307);
+  });
+
+  it('should cache redirects', async () => {
+    const engine = createRedirectEngine({ pathname: '/new' });
+
+    await engine.render({ url: '/old', document });
+    await flush();
+    const cached = await engine.render({ url: '/old', document });
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.status).toBe(302);
+    expect(cached.headers['Location']).toBe('/new');
+  });
+
+  it('should ignore how the router re-serializes query strings and paths', async () => {
+    const cases: [string, { pathname: string; search?: string }][] = [
+      ['/search?q=a+b', { pathname: '/search', search: '?q=a%20b' }],
+      ['/list?flag', { pathname: '/list', search: '?flag=' }],
+      ['/files/a%2Fb', { pathname: '/files/a/b' }],
+      ['/docs?next=/a', { pathname: '/docs', search: '?next=%2Fa' }],
+    ];
+    for (const [url, finalUrl] of cases) {
+      const engine = createRedirectEngine(finalUrl);
+      const result = await engine.render({ url, document });
+      expect(result.status).toBe(200);
+    }
+  });
+
+  it('should redirect when the query changes', async () => {
+    const engine = createRedirectEngine({ pathname: '/search', search: '?q=b' });
+
+    expect((await engine.render({ url: '/search?q=a', document })).status).toBe(302);
+  });
+
+  it('should ignore trailing slash differences', async () => {
+    const engine = createRedirectEngine({ pathname: '/about' });
+
+    const result = await engine.render({ url: '/about/', document });
+    expect(result.status).toBe(200);
+    expect(result.html).toBe('<p>destination</p>');
+  });
+});
+
+describe('BunAngularEngine streaming', () => {
+  beforeEach(() => {
+    render.mockReset();
+  });
+
+  async function readChunks(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+    const decoder = new TextDecoder();
+    const chunks: string[] = [];
+    for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+      chunks.push(decoder.decode(chunk));
+    }
+    return chunks;
+  }
+
+  it('should stream the rendered document in chunks', async () => {
+    render.mockResolvedValue(
+      '<!doctype html><html><head><title>Page</title></head><body>Hello</body></html>'
+    );
+    const engine = createEngine({ streaming: true });
+
+    const result = await engine.render({ url: '/', document });
+    expect(result.html).toBe('');
+    expect(await readChunks(result.stream!)).toEqual([
+      '<!doctype html><html><head>',
+      '<title>Page</title></head>',
+      '<body>Hello</body></html>',
+    ]);
+  });
+
+  it('should stream with the status, headers and cookies set during rendering', async () => {
+    render.mockImplementation(async (_bootstrap, options) => {
+      const response = findProvided<ServerResponseInit>(options, SERVER_RESPONSE);
+      response.status = 404;
+      response.headers.set('X-Robots-Tag', 'noindex');
+      response.setCookie('visited', '1');
+      return '<html><head></head><body>Not found</body></html>';
+    });
+    const engine = createEngine({ streaming: true });
+
+    const result = await engine.render({ url: '/missing', document });
+    expect(result.status).toBe(404);
+    expect(result.headers['x-robots-tag']).toBe('noindex');
+    expect(result.cookies).toEqual(['visited=1; Path=/']);
+    expect((await readChunks(result.stream!)).join('')).toBe(
+      '<html><head></head><body>Not found</body></html>'
+    );
+  });
+
+  it('should not stream redirects', async () => {
+    render.mockImplementation(async (bootstrap) => {
+      await (bootstrap as unknown as (context: unknown) => Promise<unknown>)({ platformRef: {} });
+      return '<p>destination</p>';
+    });
+    const engine = createEngine({
+      streaming: true,
+      bootstrap: async () => ({
+        injector: { get: () => ({ pathname: '/login', search: '' }) },
+      }),
+    });
+
+    const result = await engine.render({ url: '/account', document });
+    expect(result.status).toBe(302);
+    expect(result.headers['Location']).toBe('/login');
+    expect(result.stream).toBeUndefined();
+  });
+
+  it('should fall back to the error page instead of streaming failed renders', async () => {
+    render.mockRejectedValue(new Error('boom'));
+    const engine = createEngine({ streaming: true });
+
+    const result = await engine.render({ url: '/', document });
+    expect(result.status).toBe(500);
+    expect(result.stream).toBeUndefined();
+  });
+
+  it('should flush the shell before rendering with earlyFlush', async () => {
+    let resolve!: (html: string) => void;
+    render.mockReturnValue(new Promise((r) => (resolve = r)));
+    const engine = createEngine();
+
+    const result = await engine.render({ url: '/', document, earlyFlush: true });
+    expect(result.status).toBe(200);
+    const reader = result.stream!.getReader();
+    const decoder = new TextDecoder();
+    expect(decoder.decode((await reader.read()).value)).toBe('<!doctype html><html><head>');
+
+    resolve('<!doctype html><html><head><title>Page</title></head><body>Hello</body></html>');
+    expect(decoder.decode((await reader.read()).value)).toBe('<title>Page</title></head>');
+    expect(decoder.decode((await reader.read()).value)).toBe('<body>Hello</body></html>');
+
+    await flush();
+    const cached = await engine.render({ url: '/', document });
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.html).toContain('<body>Hello</body>');
+  });
+
+  it('should stream the fallback of failed early renders after the shell', async () => {
+    render.mockRejectedValue(new Error('boom'));
+    const engine = createEngine({ csrFallbackOnError: true });
+
+    const result = await engine.render({ url: '/', document, earlyFlush: true });
+    expect(result.status).toBe(200);
+    expect((await readChunks(result.stream!)).join('')).toBe(document);
+  });
+
+  it('should only stream when enabled', async () => {
+    render.mockResolvedValue('<html><head></head><body>Hello</body></html>');
+    const engine = createEngine();
+
+    expect((await engine.render({ url: '/', document })).stream).toBeUndefined();
+    expect((await engine.render({ url: '/', document, stream: true, skipCache: true })).stream).toBeDefined();
+  });
+});
+
+describe('BunAngularEngine request tokens', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockResolvedValue('<p>page</p>');
+  });
+
+  it('should provide the request and request context', async () => {
+    const engine = createEngine();
+    const request = new Request('http://localhost/profile', { headers: { Cookie: 'a=1' } });
+    const requestContext = { userId: 42 };
+
+    await engine.render({ url: '/profile', document, request, requestContext });
+
+    expect(provided(0, REQUEST)).toBe(request);
+    expect(provided(0, REQUEST_CONTEXT)).toBe(requestContext);
+  });
+
+  it('should provide null when rendering without a request', async () => {
+    const engine = createEngine();
+    await engine.render({ url: '/', document });
+
+    expect(provided(0, REQUEST)).toBeNull();
+    expect(provided(0, REQUEST_CONTEXT)).toBeNull();
+  });
+});
+
+describe('BunAngularEngine render timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    render.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should serve the client-side shell when a render times out', async () => {
+    render.mockReturnValue(new Promise<string>(() => undefined));
+    const engine = createEngine({ renderTimeout: 100 });
+
+    const pending = engine.render({ url: '/slow', document });
+    await vi.advanceTimersByTimeAsync(100);
+    const result = await pending;
+
+    expect(result.status).toBe(200);
+    expect(result.html).toBe(document);
+    expect(result.headers['X-Render-Fallback']).toBe('timeout');
+
+    await flush();
+    expect(render).toHaveBeenCalledTimes(1);
+    render.mockResolvedValue('<p>page</p>');
+    expect((await engine.render({ url: '/slow', document })).cacheStatus).toBe('MISS');
+  });
+
+  it('should let a render override the timeout', async () => {
+    render.mockImplementation(
+      () => new Promise<string>((resolve) => setTimeout(() => resolve('<p>page</p>'), 200))
+    );
+    const engine = createEngine({ renderTimeout: 100 });
+
+    const pending = engine.render({ url: '/', document, renderTimeout: 500 });
+    await vi.advanceTimersByTimeAsync(200);
+    expect((await pending).html).toBe('<p>page</p>');
+  });
+
+  it('should only fall back on render errors with csrFallbackOnError', async () => {
+    render.mockRejectedValue(new Error('boom'));
+
+    expect((await createEngine().render({ url: '/', document })).status).toBe(500);
+
+    const result = await createEngine({ csrFallbackOnError: true }).render({ url: '/', document });
+    expect(result.status).toBe(200);
+    expect(result.html).toBe(document);
+    expect(result.headers['X-Render-Fallback']).toBe('error');
+  });
+});
+
+describe('BunAngularEngine load shedding', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockReturnValue(new Promise<string>(() => undefined));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 503 with Retry-After once the queue is full', async () => {
+    const engine = createEngine({ maxConcurrentRenders: 1, maxQueueLength: 1, retryAfter: 10 });
+
+    void engine.render({ url: '/a', document });
+    void engine.render({ url: '/b', document });
+    const result = await engine.render({ url: '/c', document });
+
+    expect(result.status).toBe(503);
+    expect(result.headers['Retry-After']).toBe('10');
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(engine.getRenderQueueStats()).toMatchObject({ active: 1, queued: 1 });
+  });
+
+  it('should serve the client-side shell with overloadFallback', async () => {
+    const engine = createEngine({
+      maxConcurrentRenders: 1,
+      maxQueueLength: 0,
+      overloadFallback: 'shell',
+    });
+
+    void engine.render({ url: '/a', document });
+    const result = await engine.render({ url: '/b', document });
+
+    expect(result.status).toBe(200);
+    expect(result.html).toBe(document);
+    expect(result.headers['X-Render-Fallback']).toBe('overload');
+  });
+});
+
+describe('BunAngularEngine render coalescing', () => {
+  beforeEach(() => {
+    render.mockReset();
+  });
+
+  /**
+   * Make renders wait until the returned function is called
+   */
+  function holdRenders(html: string) {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    render.mockImplementation(async () => {
+      await released;
+      return html;
+    });
+    return release;
+  }
+
+  it('should not shed misses joining an in-flight render', async () => {
+    const release = holdRenders('<p>page</p>');
+    const engine = createEngine({ maxConcurrentRenders: 1, maxQueueLength: 0 });
+
+    const pending = [1, 2].map(() => engine.render({ url: '/popular', document }));
+    await flush();
+    release();
+    const results = await Promise.all(pending);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => [result.status, result.html])).toEqual([
+      [200, '<p>page</p>'],
+      [200, '<p>page</p>'],
+    ]);
+  });
+
+  it('should share one render between concurrent misses of a key', async () => {
+    const release = holdRenders('<p>page</p>');
+    const engine = createEngine();
+
+    const pending = [1, 2, 3].map(() => engine.render({ url: '/popular', document }));
+    await flush();
+    release();
+    const results = await Promise.all(pending);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.html)).toEqual([
+      '<p>page</p>',
+      '<p>page</p>',
+      '<p>page</p>',
+    ]);
+  });
+
+  it('should not coalesce renders that skip the cache', async () => {
+    const release = holdRenders('<p>page</p>');
+    const engine = createEngine();
+
+    const pending = [1, 2].map(() => engine.render({ url: '/', document, skipCache: true }));
+    await flush();
+    release();
+    await Promise.all(pending);
+
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share pages that set cookies', async () => {
+    render.mockImplementation(async (_bootstrap, options) => {
+      findProvided<ServerResponseInit>(options, SERVER_RESPONSE).setCookie('session', 'abc');
+      return '<p>page</p>';
+    });
+    const engine = createEngine();
+
+    await Promise.all([1, 2].map(() => engine.render({ url: '/', document })));
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('BunAngularEngine http context', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockResolvedValue('<p>page</p>');
+  });
+
+  it('should provide an http context for the incoming request', async () => {
+    const engine = createEngine({ http: { allowedHosts: ['shop.example'] } });
+    await engine.render({
+      url: '/products',
+      document,
+      request: new Request('https://shop.example/products'),
+    });
+
+    expect(provided<ServerHttpContext>(0, SERVER_HTTP_CONTEXT).origin).toBe('https://shop.example');
+  });
+
+  it('should provide null without http options', async () => {
+    await createEngine().render({ url: '/', document });
+    expect(provided(0, SERVER_HTTP_CONTEXT)).toBeNull();
+  });
+});
+
+describe('BunAngularEngine transforms', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockResolvedValue('<p>page</p>');
+  });
+
+  it('should run transforms with the page context before caching', async () => {
+    const transform = vi.fn(
+      async (html: string, context: HtmlTransformContext) =>
+        `${html}<!-- ${context.url.pathname} -->`
+    );
+    const engine = createEngine({ transforms: [transform] });
+    const request = new Request('https://shop.example/cart');
+
+    const first = await engine.render({ url: '/cart', document, request });
+    await flush();
+    const cached = await engine.render({ url: '/cart', document, request });
+
+    expect(first.html).toBe('<p>page</p><!-- /cart -->');
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.html).toBe(first.html);
+    expect(transform).toHaveBeenCalledTimes(1);
+    expect(transform.mock.calls[0][1]).toMatchObject({ request, status: 200 });
+  });
+});
+
+describe('BunAngularEngine CSP', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockImplementation(async (_bootstrap, options) => {
+      const nonce = findProvided<string>(options, CSP_NONCE);
+      return `<app-root ng-version="22"></app-root><style nonce="${nonce}">.a{}</style>`;
+    });
+  });
+
+  it('should provide a nonce and send it in the policy header', async () => {
+    const engine = createEngine({ csp: {} });
+    const result = await engine.render({ url: '/', document });
+
+    expect(result.nonce).toBeDefined();
+    expect(result.html).toContain(`<style nonce="${result.nonce}">`);
+    expect(result.html).toContain(`ngCspNonce="${result.nonce}"`);
+    expect(result.headers['Content-Security-Policy']).toContain(`'nonce-${result.nonce}'`);
+  });
+
+  it('should re-nonce cache hits', async () => {
+    const engine = createEngine({ csp: {} });
+    const first = await engine.render({ url: '/', document });
+    await flush();
+    const cached = await engine.render({ url: '/', document });
+
+    expect(cached.cacheStatus).toBe('HIT');
+    expect(cached.nonce).not.toBe(first.nonce);
+    expect(cached.html).toContain(`<style nonce="${cached.nonce}">`);
+    expect(cached.html).not.toContain(first.nonce);
+  });
+
+  it('should only nonce the tags of the template and of Angular', async () => {
+    render.mockImplementation(async (_bootstrap, options) => {
+      const { document: template } = options as { document: string };
+      return template.replace(
+        '<app-root></app-root>',
+        '<app-root ng-version="22"><script>injected()</script><style>.x{}</style></app-root>'
+      );
+    });
+    const engine = createEngine({ csp: {} });
+    const page = document.replace('</head>', '<script src="main.js"></script></head>');
+
+    const first = await engine.render({ url: '/', document: page });
+    await flush();
+    const cached = await engine.render({ url: '/', document: page });
+
+    for (const result of [first, cached]) {
+      expect(result.html).toContain(`<script nonce="${result.nonce}" src="main.js">`);
+      expect(result.html).toContain('<script>injected()</script><style>.x{}</style>');
+    }
+  });
+});
+
+describe('BunAngularEngine error page', () => {
+  beforeEach(() => {
+    render.mockReset();
+    render.mockRejectedValue(new Error('<img src=x onerror=alert(1)>'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  class ApiService {}
+
+  it('should show escaped error details in development', async () => {
+    const providers = [{ provide: ApiService, useValue: {} }];
+    const engine = createEngine({ development: true, providers });
+    const result = await engine.render({ url: '/cart?id=<1>', document });
+
+    expect(result.status).toBe(500);
+    expect(result.html).toContain('Error: &lt;img src=x onerror=alert(1)&gt;');
+    expect(result.html).not.toContain('<img');
+    expect(result.html).toContain('/cart?id=&lt;1&gt;');
+    expect(result.html).toContain('<li>ApiService</li>');
+    expect(result.html).toContain('engine.spec.ts');
+  });
+
+  it('should hide error details in production', async () => {
+    const result = await createEngine({ development: false }).render({ url: '/', document });
+
+    expect(result.status).toBe(500);
+    expect(result.html).toContain('An error occurred while rendering this page.');
+    expect(result.html).not.toContain('onerror');
+  });
+
+  it('should hide error details unless development is enabled', async () => {
+    const result = await createEngine().render({ url: '/', document });
+
+    expect(result.html).toContain('An error occurred while rendering this page.');
+  });
+
+  it('should use the errorPage renderer in production', async () => {
+    const errorPage = vi.fn(() => '<h1>Oops</h1>');
+    const request = new Request('http://localhost/');
+    const engine = createEngine({ development: false, errorPage });
+    const result = await engine.render({ url: '/', document, request });
+
+    expect(result.html).toBe('<h1>Oops</h1>');
+    expect(errorPage).toHaveBeenCalledWith(expect.any(Error), request);
+  });
+
+  it('should serve 500.html from the browser dist folder', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ngx-bun-error-page-'));
+    try {
+      await writeFile(join(dir, '500.html'), '<h1>Branded error</h1>');
+      const engine = createEngine({ development: false, browserDistFolder: dir });
+      const result = await engine.render({ url: '/', document });
+
+      expect(result.status).toBe(500);
+      expect(result.html).toBe('<h1>Branded error</h1>');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('BunAngularEngine metrics', () => {
+  beforeEach(() => {
+    render.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should count cache statuses and render errors', async () => {
+    render.mockResolvedValueOnce('<p>page</p>').mockRejectedValueOnce(new Error('boom'));
+    const engine = createEngine();
+
+    await engine.render({ url: '/', document });
+    await flush();
+    await engine.render({ url: '/', document });
+    await engine.render({ url: '/broken', document });
+
+    const output = await engine.metrics.serialize();
+    expect(output).toContain('ngx_bun_cache_requests_total{status="miss"} 2');
+    expect(output).toContain('ngx_bun_cache_requests_total{status="hit"} 1');
+    expect(output).toContain('ngx_bun_render_errors_total{reason="error"} 1');
+    expect(output).toContain('ngx_bun_renders_in_flight 0');
+    expect(output).toContain('ngx_bun_cache_entries 1');
+    expect(output).toMatch(/ngx_bun_process_memory_bytes\{type="rss"\} \d+/);
+  });
+
+  it('should only count the entries of other cache stores with cacheSizeMetric', async () => {
+    render.mockResolvedValue('<p>page</p>');
+    const memory = new MemoryCacheStore<CacheEntry>();
+    // A store the engine can't count cheaply, such as Redis
+    const cacheStore: CacheStore = {
+      get: (key) => memory.get(key),
+      set: (key, value, ttl) => memory.set(key, value, ttl),
+      delete: (key) => memory.delete(key),
+      clear: () => memory.clear(),
+      keys: vi.fn(() => memory.keys()),
+    };
+
+    const engine = createEngine({ cacheStore });
+    await engine.render({ url: '/', document });
+    await flush();
+    expect(await engine.metrics.serialize()).not.toMatch(/^ngx_bun_cache_entries /m);
+    expect(cacheStore.keys).not.toHaveBeenCalled();
+
+    const counting = createEngine({ cacheStore, cacheSizeMetric: true });
+    expect(await counting.metrics.serialize()).toContain('ngx_bun_cache_entries 1');
+  });
+
+  it('should record render queue wait times', async () => {
+    render.mockResolvedValue('<p>page</p>');
+    const engine = createEngine({ maxConcurrentRenders: 1 });
+
+    await Promise.all([
+      engine.render({ url: '/a', document }),
+      engine.render({ url: '/b', document }),
+    ]);
+    expect(await engine.metrics.serialize()).toContain('ngx_bun_render_queue_wait_seconds_count 2');
+  });
+});
+
+describe('BunAngularEngine tracing', () => {
+  const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+  beforeEach(() => {
+    render.mockReset();
+    render.mockImplementation(async (bootstrap) => {
+      await (bootstrap as () => Promise<unknown>)();
+      return '<p>page</p>';
+    });
+  });
+
+  it('should record render spans in the request trace', async () => {
+    const exported: FinishedSpan[] = [];
+    const engine = createEngine({
+      bootstrap: async () => ({ injector: { get: () => null } }),
+      tracing: { exporter: { export: (spans) => void exported.push(...spans) } },
+      transforms: [(html) => html],
+    });
+    const request = new Request('http://localhost/', { headers: { traceparent } });
+
+    await engine.render({ url: '/', document, request });
+    await engine.tracer!.close();
+
+    const spans = Object.fromEntries(exported.map((span) => [span.name, span]));
+    expect(Object.keys(spans).sort()).toEqual(
+      ['angular.bootstrap', 'cache.lookup', 'html.transforms', 'render'].sort()
+    );
+    const traceIds = new Set(exported.map((span) => span.context.traceId));
+    expect([...traceIds]).toEqual(['0af7651916cd43dd8448eb211c80319c']);
+    expect(spans['cache.lookup'].parentSpanId).toBe('b7ad6b7169203331');
+    expect(spans['render'].parentSpanId).toBe('b7ad6b7169203331');
+    expect(spans['angular.bootstrap'].parentSpanId).toBe(spans['render'].context.spanId);
+
+    // Outgoing HttpClient calls continue from the render span
+    expect(provided<string>(0, TRACE_PARENT)).toBe(
+      `00-0af7651916cd43dd8448eb211c80319c-${spans['render'].context.spanId}-01`
+    );
+  });
+});
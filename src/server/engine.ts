@@ -1,5 +1,14 @@
 import { renderApplication } from '@angular/platform-server';
-import type { StaticProvider } from '@angular/core';
+import {
+  CSP_NONCE,
+  PlatformRef,
+  REQUEST,
+  REQUEST_CONTEXT,
+  RESPONSE_INIT,
+  type ApplicationRef,
+  type StaticProvider,
+} from '@angular/core';
+import type { PlatformLocation } from '@angular/common';
 import { readFileSync, existsSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import type {
@@ -7,8 +16,128 @@ import type {
   RenderOptions,
   RenderResult,
   CacheEntry,
+  CacheStatus,
+  CacheStore,
+  InvalidateOptions,
+  RedirectStatus,
 } from './types';
-import { LRUCache } from './cache';
+import { MemoryCacheStore } from './cache';
+import {
+  createCacheKeyFunction,
+  getVaryHeaders,
+  type CacheKeyFunction,
+} from './cache-key';
+import { createDocumentStream, createEarlyDocumentStream } from './stream';
+import { CACHE_TAGS, SERVER_HTTP_CONTEXT, SERVER_RESPONSE, TRACE_PARENT } from './tokens';
+import { ServerResponseInit } from './response';
+import { RenderQueueFullError, RenderTimeoutError } from './errors';
+import { RenderLimiter, type RenderQueueStats } from './limiter';
+import { ServerHttpFetcher } from './http';
+import { CriticalCssInliner } from './critical-css';
+import { applyTransforms, type HtmlTransform } from './transforms';
+import {
+  generateNonce,
+  getCspHeader,
+  replaceNonce,
+  replaceNonceStream,
+  stampNonce,
+  stampRootNonce,
+  type CspOptions,
+} from './csp';
+import { RenderWorkerPool, type RenderWorkerPoolStats } from './worker-pool';
+import {
+  getProviderNames,
+  renderDevErrorPage,
+  renderErrorPage,
+  type ErrorPageRenderer,
+} from './error-page';
+import { StackTraceMapper } from './source-map';
+import { MetricsRegistry, type Counter, type Gauge, type Histogram, type MetricLabels } from './metrics';
+import { Tracer, parseTraceparent, type Span, type SpanAttributes } from './tracing';
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Output of a single Angular render, before it is turned into a result
+ */
+export interface RenderedPage {
+  html: string;
+  status: number;
+  headers: Record<string, string>;
+  cookies: string[];
+  path: string;
+  tags: string[];
+  /**
+   * CSP nonce the page was rendered with
+   */
+  nonce?: string;
+}
+
+/**
+ * Merge headers case-insensitively, letting later values win
+ */
+function mergeHeaders(
+  base: Record<string, string>,
+  overrides: Record<string, string>
+): Record<string, string> {
+  const merged = { ...base };
+  for (const [name, value] of Object.entries(overrides)) {
+    const lower = name.toLowerCase();
+    for (const existing of Object.keys(merged)) {
+      if (existing.toLowerCase() === lower) {
+        delete merged[existing];
+      }
+    }
+    merged[name] = value;
+  }
+  return merged;
+}
+
+/**
+ * Check whether two URLs point at the same page, ignoring trailing slashes
+ * and differences in how the router re-serializes them (`+` vs `%20`,
+ * `?flag` vs `?flag=`, `/` vs `%2F`)
+ */
+function isSameUrl(a: string, b: string): boolean {
+  const normalize = (value: string) => {
+    const url = new URL(value, 'http://localhost');
+    let pathname = url.pathname;
+    try {
+      pathname = decodeURIComponent(pathname);
+    } catch {
+      // Keep malformed paths as they are
+    }
+    url.searchParams.sort();
+    return `${pathname.replace(/\/+$/, '') || '/'}?${url.searchParams}`;
+  };
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Reject with a RenderTimeoutError if a render takes longer than `timeout` ms
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  url: string,
+  onTimeout: () => void
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout();
+      reject(new RenderTimeoutError(url, timeout));
+    }, timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
 
 /**
  * BunAngularEngine - Core SSR engine for Angular applications running on Bun
@@ -17,16 +146,68 @@ import { LRUCache } from './cache';
  * with built-in caching and optimizations for Bun's runtime.
  */
 export class BunAngularEngine {
+  /**
+   * Registry holding the engine's metrics
+   */
+  readonly metrics: MetricsRegistry;
+
+  /**
+   * Logger used by the engine, and by default by the request handler,
+   * server and prerenderer
+   */
+  readonly logger: Logger;
+
+  /**
+   * Tracer creating render spans, or null when tracing is disabled
+   */
+  readonly tracer: Tracer | null;
+
+  /**
+   * Locale of the build this engine serves, if any
+   */
+  readonly locale?: string;
   private readonly bootstrap: (() => Promise<unknown>) | unknown;
   private readonly browserDistFolder: string;
   private readonly serverDistFolder: string;
   private readonly indexHtmlPath: string;
   private readonly providers: StaticProvider[];
-  private readonly cache: LRUCache<CacheEntry> | null;
+  private readonly cache: CacheStore<CacheEntry> | null;
   private readonly cacheTtl: number;
+  private readonly cacheKey: CacheKeyFunction;
+  private readonly varyHeaders: string[];
+  private readonly getCacheTags?: (url: URL, request?: Request) => string[];
+  private readonly cacheableStatuses?: number[];
+  private readonly redirectStatus: RedirectStatus;
+  private readonly renderTimeout?: number;
+  private readonly csrFallbackOnError: boolean;
+  private readonly staleWhileRevalidate: number;
+  private readonly staleIfError: number;
+  private readonly streaming: boolean;
+  private readonly revalidating = new Set<string>();
+  private readonly inFlight = new Map<string, Promise<RenderedPage>>();
+  private readonly workerPool: RenderWorkerPool | null;
+  private readonly limiter: RenderLimiter | null;
+  private readonly overloadFallback: 'shell' | 'unavailable';
+  private readonly retryAfter: number;
+  private readonly http: ServerHttpFetcher | null;
+  private readonly criticalCss: CriticalCssInliner | null;
+  private readonly transforms: HtmlTransform[];
+  private readonly csp: CspOptions | null;
+  private readonly development: boolean;
+  private readonly errorPage?: ErrorPageRenderer;
+  private readonly stackMapper: StackTraceMapper | null;
+  private readonly cacheRequests: Counter;
+  private readonly renderErrors: Counter;
+  private readonly rendersInFlight: Gauge;
+  private readonly queueWait: Histogram;
+  private readonly cacheSizeMetric: boolean;
+  private warnedWorkerProviders = false;
   private indexHtmlContent: string | null = null;
+  private errorPageContent: string | null | undefined;
 
   constructor(options: BunAngularEngineOptions) {
+    this.logger = options.logger ?? createLogger({ name: 'BunAngularEngine' });
+    this.locale = options.locale;
     this.bootstrap = options.bootstrap;
     this.browserDistFolder = resolve(options.browserDistFolder);
     this.serverDistFolder = options.serverDistFolder
@@ -37,14 +218,69 @@ export class BunAngularEngine {
       : join(this.browserDistFolder, 'index.html');
     this.providers = options.providers ?? [];
     this.cacheTtl = options.cacheTtl ?? 300_000; // 5 minutes default
+    this.cacheKey =
+      options.cacheKey ??
+      createCacheKeyFunction({ varyBy: options.varyBy, authCookies: options.authCookies });
+    this.varyHeaders = getVaryHeaders(options.varyBy);
+    this.getCacheTags = options.getCacheTags;
+    this.cacheableStatuses = options.cacheableStatuses;
+    this.redirectStatus = options.redirectStatus ?? 302;
+    this.renderTimeout = options.renderTimeout;
+    this.csrFallbackOnError = options.csrFallbackOnError ?? false;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.staleIfError = options.staleIfError ?? 0;
+    this.streaming = options.streaming ?? false;
 
     // Initialize cache if enabled
     if (options.enableCache !== false) {
-      this.cache = new LRUCache<CacheEntry>(options.maxCacheSize ?? 100);
+      this.cache =
+        options.cacheStore ?? new MemoryCacheStore<CacheEntry>(options.maxCacheSize ?? 100);
     } else {
       this.cache = null;
     }
 
+    this.workerPool = options.workers
+      ? new RenderWorkerPool({ logger: this.logger, ...options.workers })
+      : null;
+    this.limiter = options.maxConcurrentRenders
+      ? new RenderLimiter({
+          maxConcurrent: options.maxConcurrentRenders,
+          maxQueueLength: options.maxQueueLength,
+        })
+      : null;
+    this.overloadFallback = options.overloadFallback ?? 'unavailable';
+    this.retryAfter = options.retryAfter ?? 5;
+    this.http = options.http ? new ServerHttpFetcher(options.http) : null;
+    this.criticalCss = options.inlineCriticalCss
+      ? new CriticalCssInliner(this.browserDistFolder)
+      : null;
+    this.transforms = options.transforms ?? [];
+    this.csp = options.csp ?? null;
+    this.development = options.development ?? false;
+    this.errorPage = options.errorPage;
+    this.stackMapper = this.development ? new StackTraceMapper() : null;
+
+    this.metrics = options.metrics ?? new MetricsRegistry(this.logger);
+    this.cacheRequests = this.metrics.counter(
+      'ngx_bun_cache_requests_total',
+      'Page requests by render cache status'
+    );
+    this.renderErrors = this.metrics.counter(
+      'ngx_bun_render_errors_total',
+      'Failed or shed renders by reason'
+    );
+    this.rendersInFlight = this.metrics.gauge(
+      'ngx_bun_renders_in_flight',
+      'Renders currently running'
+    );
+    this.queueWait = this.metrics.histogram(
+      'ngx_bun_render_queue_wait_seconds',
+      'Time renders waited for a slot when maxConcurrentRenders is set'
+    );
+    this.cacheSizeMetric = options.cacheSizeMetric ?? false;
+    this.collectMetrics();
+    this.tracer = options.tracing ? new Tracer(options.tracing, this.logger) : null;
+
     // Pre-load index.html
     this.loadIndexHtml();
   }
@@ -78,153 +314,826 @@ export class BunAngularEngine {
   }
 
   /**
-   * Generate a cache key for the given URL
+   * Generate a cache key for the given render, or null to skip the cache
    */
-  private getCacheKey(url: string): string {
-    // Normalize the URL for caching
-    const parsedUrl = new URL(url, 'http://localhost');
-    return `${parsedUrl.pathname}${parsedUrl.search}`;
+  private getCacheKey(options: RenderOptions): string | null {
+    const url = new URL(options.url, options.request?.url ?? 'http://localhost');
+    const key = this.cacheKey(options.request, url);
+    return key !== null && this.locale ? `${key}|locale=${this.locale}` : key;
   }
 
   /**
-   * Check if a cached entry is still valid
+   * Classify a cached entry by age
+   *
+   * - `fresh`: within the cache TTL
+   * - `stale`: expired, but within the stale-while-revalidate window
+   * - `stale-if-error`: expired, but usable if a new render fails
+   * - `expired`: unusable
    */
-  private isCacheValid(entry: CacheEntry): boolean {
-    return Date.now() < entry.expiresAt;
+  private getCacheState(
+    entry: CacheEntry
+  ): 'fresh' | 'stale' | 'stale-if-error' | 'expired' {
+    const now = Date.now();
+    if (now < entry.expiresAt) return 'fresh';
+    if (now < entry.expiresAt + this.staleWhileRevalidate) return 'stale';
+    if (now < entry.expiresAt + this.staleIfError) return 'stale-if-error';
+    return 'expired';
+  }
+
+  /**
+   * Build a render result from a cached entry
+   */
+  private fromCacheEntry(
+    entry: CacheEntry,
+    cacheStatus: CacheStatus,
+    startTime: number
+  ): RenderResult {
+    return {
+      html: entry.html,
+      status: entry.status,
+      headers: entry.headers,
+      fromCache: true,
+      nonce: entry.nonce,
+      cacheStatus,
+      renderTime: performance.now() - startTime,
+    };
   }
 
   /**
    * Render an Angular application for the given URL
    */
   async render(options: RenderOptions): Promise<RenderResult> {
+    // Continue the trace of the incoming request
+    const traceparent = options.request?.headers.get('traceparent');
+    if (this.tracer && !options.traceparent && traceparent) {
+      options = { ...options, traceparent };
+    }
+
+    if (!this.csp) {
+      return this.countResult(await this.renderResult(options));
+    }
+    const nonce = generateNonce();
+    const result = await this.renderResult({ ...options, nonce });
+    return this.applyCsp(this.countResult(result), this.csp, nonce);
+  }
+
+  /**
+   * Run part of a render in a span, child of the render's `traceparent`
+   */
+  private trace<T>(
+    name: string,
+    options: RenderOptions,
+    fn: (span?: Span) => Promise<T>,
+    attributes?: SpanAttributes
+  ): Promise<T> {
+    if (!this.tracer) {
+      return fn();
+    }
+    const parent = parseTraceparent(options.traceparent);
+    return this.tracer.trace(name, { parent, attributes }, fn);
+  }
+
+  /**
+   * Record the cache status of a result
+   */
+  private countResult(result: RenderResult): RenderResult {
+    this.cacheRequests.inc({ status: result.cacheStatus.toLowerCase() });
+    return result;
+  }
+
+  /**
+   * Record a failed or shed render
+   */
+  private countRenderError(error: unknown): void {
+    const reason =
+      error instanceof RenderTimeoutError
+        ? 'timeout'
+        : error instanceof RenderQueueFullError
+          ? 'overload'
+          : 'error';
+    this.renderErrors.inc({ reason });
+  }
+
+  /**
+   * Update the metrics computed on demand before they are serialized
+   */
+  private collectMetrics(): void {
+    const cacheEntries = this.metrics.gauge('ngx_bun_cache_entries', 'Pages in the render cache');
+    const cacheEvictions = this.metrics.counter(
+      'ngx_bun_cache_evictions_total',
+      'Pages evicted from the in-memory render cache because it was full'
+    );
+    const queueLength = this.metrics.gauge(
+      'ngx_bun_render_queue_length',
+      'Renders waiting for a slot'
+    );
+    const workers = this.metrics.gauge('ngx_bun_render_workers', 'Render workers by state');
+    const workerCrashes = this.metrics.counter(
+      'ngx_bun_render_worker_crashes_total',
+      'Render workers that exited unexpectedly'
+    );
+    const memory = this.metrics.gauge('ngx_bun_process_memory_bytes', 'Process memory by type');
+
+    // Engines of different locales can share a registry
+    const labels: MetricLabels = this.locale ? { locale: this.locale } : {};
+
+    this.metrics.collect(async () => {
+      // Counting the entries of other stores lists all their keys
+      if (this.cache instanceof MemoryCacheStore || this.cacheSizeMetric) {
+        const cacheStats = await this.getCacheStats();
+        if (cacheStats) {
+          cacheEntries.set(cacheStats.size, labels);
+        }
+      }
+      if (this.cache instanceof MemoryCacheStore) {
+        cacheEvictions.set(this.cache.evictions, labels);
+      }
+
+      const queueStats = this.getRenderQueueStats();
+      if (queueStats) {
+        queueLength.set(queueStats.queued, labels);
+      }
+
+      const workerStats = this.getWorkerStats();
+      if (workerStats) {
+        workers.set(workerStats.busy, { ...labels, state: 'busy' });
+        workers.set(workerStats.size - workerStats.busy, { ...labels, state: 'idle' });
+        workerCrashes.set(workerStats.crashes, labels);
+      }
+
+      const usage = process.memoryUsage();
+      memory.set(usage.rss, { type: 'rss' });
+      memory.set(usage.heapUsed, { type: 'heap_used' });
+      memory.set(usage.heapTotal, { type: 'heap_total' });
+      memory.set(usage.external, { type: 'external' });
+    });
+  }
+
+  /**
+   * Give a result the response's nonce and add the policy header
+   *
+   * Cached and shared pages carry the nonce of the render that produced
+   * them, so it is swapped for the response's own nonce. Results without a
+   * nonce are sent unchanged.
+   */
+  private applyCsp(result: RenderResult, csp: CspOptions, nonce: string): RenderResult {
+    const [name, value] = getCspHeader(csp, nonce);
+    const previous = result.nonce;
+    return {
+      ...result,
+      html: previous ? replaceNonce(result.html, previous, nonce) : result.html,
+      stream:
+        previous && result.stream
+          ? replaceNonceStream(result.stream, previous, nonce)
+          : result.stream,
+      headers: { ...result.headers, [name]: value },
+      nonce,
+    };
+  }
+
+  /**
+   * Render a page or serve it from the cache
+   */
+  private async renderResult(options: RenderOptions): Promise<RenderResult> {
     const startTime = performance.now();
-    const cacheKey = this.getCacheKey(options.url);
-
-    // Check cache first (unless skipped)
-    if (!options.skipCache && this.cache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached && this.isCacheValid(cached)) {
-        return {
-          html: cached.html,
-          status: cached.status,
-          headers: cached.headers,
-          fromCache: true,
-          renderTime: performance.now() - startTime,
-        };
+    const cacheKey = options.skipCache || !this.cache ? null : this.getCacheKey(options);
+
+    // Entry to fall back to if the render fails (stale-if-error)
+    let fallback: CacheEntry | undefined;
+
+    // Check cache first (unless skipped or refreshed)
+    if (cacheKey !== null && !options.refreshCache) {
+      const cached = await this.trace('cache.lookup', options, async (span) => {
+        const entry = await this.readFromCache(cacheKey);
+        span?.setAttribute('ngx_bun.cache.hit', entry !== undefined);
+        return entry;
+      });
+      const state = cached ? this.getCacheState(cached) : 'expired';
+      if (cached && state === 'fresh') {
+        return this.fromCacheEntry(cached, 'HIT', startTime);
       }
+      if (cached && state === 'stale') {
+        this.revalidate(cacheKey, options);
+        return this.fromCacheEntry(cached, 'STALE', startTime);
+      }
+      if (state === 'stale-if-error') {
+        fallback = cached;
+      }
+    }
+
+    const cacheStatus: CacheStatus = cacheKey !== null ? 'MISS' : 'BYPASS';
+
+    // Shed load instead of queueing renders without bound. Requests joining
+    // an in-flight render for their key don't start one, so they aren't shed.
+    const joinsRender = cacheKey !== null && this.inFlight.has(cacheKey);
+    if (this.limiter && !joinsRender && !this.limiter.hasCapacity()) {
+      return this.renderOverloaded(options, fallback, cacheStatus, startTime);
     }
 
+    if (options.earlyFlush) {
+      return this.renderEarly(cacheKey, fallback, cacheStatus, options, startTime);
+    }
+    return this.renderMiss(cacheKey, fallback, cacheStatus, options, startTime);
+  }
+
+  /**
+   * Render a page missing from the cache, falling back to the stale page, the
+   * client-side shell or the error page if the render fails
+   */
+  private async renderMiss(
+    cacheKey: string | null,
+    fallback: CacheEntry | undefined,
+    cacheStatus: CacheStatus,
+    options: RenderOptions,
+    startTime: number
+  ): Promise<RenderResult> {
     try {
       const document = this.getDocument(options.document);
-      const url = new URL(options.url, 'http://localhost');
+      const page = await this.renderShared(cacheKey, document, options);
 
-      // Combine providers
-      const providers: StaticProvider[] = [...this.providers, ...(options.providers ?? [])];
+      // The head is committed with the page's own status, headers and cookies
+      const stream =
+        (options.stream ?? this.streaming) && page.html ? createDocumentStream(page.html) : undefined;
 
-      // Render the application
-      const html = await renderApplication(this.bootstrap as Parameters<typeof renderApplication>[0], {
-        document,
-        url: url.pathname + url.search,
-        platformProviders: providers,
-      });
-
-      const result: RenderResult = {
-        html,
-        status: 200,
-        headers: {
-          'Content-Type': 'text/html; charset=utf-8',
-          'X-Rendered-By': 'bun-angular-ssr',
-        },
+      return {
+        html: stream ? '' : page.html,
+        stream,
+        status: page.status,
+        headers: page.headers,
+        cookies: page.cookies.length > 0 ? page.cookies : undefined,
         fromCache: false,
+        cacheStatus,
         renderTime: performance.now() - startTime,
+        nonce: page.nonce,
       };
-
-      // Cache the result
-      if (!options.skipCache && this.cache) {
-        const cacheEntry: CacheEntry = {
-          html: result.html,
-          status: result.status,
-          headers: result.headers,
-          timestamp: Date.now(),
-          expiresAt: Date.now() + this.cacheTtl,
-        };
-        this.cache.set(cacheKey, cacheEntry);
+    } catch (error) {
+      this.countRenderError(error);
+      if (fallback) {
+        this.logger.error(`Render error for ${options.url}, serving stale page`, {
+          url: options.url,
+          error,
+        });
+        return this.fromCacheEntry(fallback, 'STALE', startTime);
       }
 
-      return result;
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[BunAngularEngine] Render error for ${options.url}:`, error);
+      const shell = this.getCsrFallback(error, options);
+      if (shell) {
+        return this.fromShell(shell.html, shell.reason, cacheStatus, startTime, options.nonce);
+      }
 
+      const html = await this.handleRenderError(error, options, startTime);
       return {
-        html: this.renderErrorPage(errorMessage),
+        html: options.nonce ? stampNonce(html, options.nonce) : html,
         status: 500,
         headers: {
           'Content-Type': 'text/html; charset=utf-8',
         },
         fromCache: false,
+        cacheStatus,
         renderTime: performance.now() - startTime,
+        nonce: options.nonce,
+      };
+    }
+  }
+
+  /**
+   * Flush the template's shell before rendering, for `earlyFlush` renders
+   *
+   * The response is committed as a 200 with the default headers; the rendered
+   * head and body, or the fallback of a failed render, follow once ready.
+   */
+  private async renderEarly(
+    cacheKey: string | null,
+    fallback: CacheEntry | undefined,
+    cacheStatus: CacheStatus,
+    options: RenderOptions,
+    startTime: number
+  ): Promise<RenderResult> {
+    let document: string;
+    try {
+      document = this.getDocument(options.document);
+    } catch {
+      return this.renderMiss(cacheKey, fallback, cacheStatus, options, startTime);
+    }
+
+    // Shared renders and stale pages carry the nonce of their own response
+    const { nonce } = options;
+    const rendered = this.renderMiss(
+      cacheKey,
+      fallback,
+      cacheStatus,
+      { ...options, stream: false },
+      startTime
+    ).then((result) =>
+      result.nonce && nonce ? replaceNonce(result.html, result.nonce, nonce) : result.html
+    );
+
+    return {
+      html: '',
+      stream: createEarlyDocumentStream(document, rendered),
+      status: 200,
+      headers: this.getResponseHeaders(),
+      fromCache: false,
+      cacheStatus,
+      renderTime: performance.now() - startTime,
+      nonce,
+    };
+  }
+
+  /**
+   * Re-render a stale page in the background and refresh its cache entry
+   *
+   * Only one revalidation runs per cache key. If it fails, the stale entry
+   * is kept so it can still be served.
+   */
+  private revalidate(cacheKey: string, options: RenderOptions): void {
+    if (this.revalidating.has(cacheKey)) return;
+    this.revalidating.add(cacheKey);
+
+    (async () => {
+      try {
+        const document = this.getDocument(options.document);
+        const page = await this.executeRender(document, options);
+        if (this.isCacheable(page)) {
+          await this.storeInCache(cacheKey, page, options.cacheTtl);
+        }
+      } catch (error) {
+        this.countRenderError(error);
+        this.logger.error(`Revalidation failed for ${options.url}`, { url: options.url, error });
+      } finally {
+        this.revalidating.delete(cacheKey);
+      }
+    })();
+  }
+
+  /**
+   * Render a page, sharing one render between concurrent misses of a key
+   *
+   * The first request for a cache key renders and caches the page; requests
+   * for the same key arriving meanwhile wait for that render instead of
+   * starting their own. Pages that set cookies are not shared, so waiters
+   * render those themselves. Renders without a cache key are never shared.
+   */
+  private renderShared(
+    cacheKey: string | null,
+    document: string,
+    options: RenderOptions
+  ): Promise<RenderedPage> {
+    if (cacheKey === null) {
+      return this.executeRender(document, options);
+    }
+
+    const inFlight = this.inFlight.get(cacheKey);
+    if (inFlight) {
+      return inFlight.then((page) =>
+        page.cookies.length > 0 ? this.executeRender(document, options) : page
+      );
+    }
+
+    const rendering = this.executeRender(document, options);
+    this.inFlight.set(cacheKey, rendering);
+
+    // Keep coalescing until the page is readable from the cache
+    rendering
+      .then(async (page) => {
+        if (this.isCacheable(page)) {
+          await this.storeInCache(cacheKey, page, options.cacheTtl);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => this.inFlight.delete(cacheKey));
+
+    return rendering;
+  }
+
+  /**
+   * Render a page once the limiter grants a slot, then post-process it
+   */
+  private async executeRender(document: string, options: RenderOptions): Promise<RenderedPage> {
+    const render = () =>
+      this.trace(
+        'render',
+        options,
+        async (span) => {
+          this.rendersInFlight.inc();
+          try {
+            // Spans and HTTP calls of the application become children of this span
+            const traceparent = span?.traceparent ?? options.traceparent;
+            return await this.dispatchRender(document, { ...options, traceparent });
+          } finally {
+            this.rendersInFlight.dec();
+          }
+        },
+        { 'url.path': options.url }
+      );
+    let page: RenderedPage;
+    if (this.limiter) {
+      const queuedAt = performance.now();
+      page = await this.limiter.run(() => {
+        this.queueWait.observe((performance.now() - queuedAt) / 1000);
+        return render();
+      });
+    } else {
+      page = await render();
+    }
+    return this.postProcess(page, options);
+  }
+
+  /**
+   * Post-process a rendered page before it is cached: inline critical CSS,
+   * then run the configured transforms
+   */
+  private async postProcess(page: RenderedPage, options: RenderOptions): Promise<RenderedPage> {
+    if (!page.html || (!this.criticalCss && this.transforms.length === 0)) {
+      return page;
+    }
+
+    const html = await this.trace('html.transforms', options, async () => {
+      let html = page.html;
+      if (this.criticalCss) {
+        html = await this.criticalCss.inline(html, page.nonce);
+      }
+      if (this.transforms.length > 0) {
+        html = await applyTransforms(html, this.transforms, {
+          url: new URL(options.url, options.request?.url ?? 'http://localhost'),
+          request: options.request,
+          status: page.status,
+          nonce: page.nonce,
+        });
+      }
+      return html;
+    });
+    return html === page.html ? page : { ...page, html };
+  }
+
+  /**
+   * Render a page in-process or on the worker pool
+   */
+  private dispatchRender(document: string, options: RenderOptions): Promise<RenderedPage> {
+    if (!this.workerPool) {
+      return this.renderPage(document, options);
+    }
+
+    if (options.providers?.length && !this.warnedWorkerProviders) {
+      this.warnedWorkerProviders = true;
+      this.logger.warn('Per-render providers are ignored when rendering in workers');
+    }
+
+    const url = new URL(options.url, options.request?.url ?? 'http://localhost');
+    const { request } = options;
+    return this.workerPool.render(
+      {
+        document,
+        url: options.url,
+        request: request
+          ? { url: request.url, method: request.method, headers: [...request.headers] }
+          : undefined,
+        requestContext: options.requestContext,
+        cacheTags: [
+          ...(this.getCacheTags?.(url, request) ?? []),
+          ...(options.cacheTags ?? []),
+        ],
+        redirectStatus: options.redirectStatus ?? this.redirectStatus,
+        nonce: options.nonce,
+        traceparent: options.traceparent,
+      },
+      options.renderTimeout ?? this.renderTimeout
+    );
+  }
+
+  /**
+   * Run the Angular application for the given URL and return the rendered page
+   *
+   * Bypasses the cache and the worker pool; used by render workers.
+   */
+  async renderPage(document: string, options: RenderOptions): Promise<RenderedPage> {
+    const url = new URL(options.url, options.request?.url ?? 'http://localhost');
+
+    // Tags may be added by components while rendering
+    const tags = new Set<string>([
+      ...(this.getCacheTags?.(url, options.request) ?? []),
+      ...(options.cacheTags ?? []),
+    ]);
+
+    // Status, headers and cookies may be set by components while rendering
+    const response = new ServerResponseInit();
+
+    // Combine providers
+    const providers: StaticProvider[] = [
+      ...this.providers,
+      { provide: CACHE_TAGS, useValue: tags },
+      { provide: SERVER_RESPONSE, useValue: response },
+      { provide: RESPONSE_INIT, useValue: response },
+      { provide: REQUEST, useValue: options.request ?? null },
+      { provide: REQUEST_CONTEXT, useValue: options.requestContext ?? null },
+      { provide: SERVER_HTTP_CONTEXT, useValue: this.http?.createContext(options.request) ?? null },
+      ...(options.nonce ? [{ provide: CSP_NONCE, useValue: options.nonce }] : []),
+      ...(options.traceparent ? [{ provide: TRACE_PARENT, useValue: options.traceparent }] : []),
+      ...(options.providers ?? []),
+    ];
+
+    // Tear down the application of a render that timed out
+    let appRef: ApplicationRef | null = null;
+    let timedOut = false;
+    const abort = () => {
+      try {
+        appRef?.injector.get(PlatformRef).destroy();
+      } catch {
+        // The platform may already be destroyed
+      }
+    };
+
+    // Capture the platform location to detect router redirects
+    let location = null as PlatformLocation | null;
+    const bootstrap = async (...args: unknown[]) => {
+      appRef = await this.trace('angular.bootstrap', options, () =>
+        (this.bootstrap as (...args: unknown[]) => Promise<ApplicationRef>)(...args)
+      );
+      if (timedOut) {
+        abort();
+      }
+      // Loaded lazily, once the application has loaded @angular/common itself
+      const { PlatformLocation } = await import('@angular/common');
+      location = appRef.injector.get(PlatformLocation, null);
+      return appRef;
+    };
+
+    // Only the template's own tags are nonced; Angular nonces the styles
+    // and scripts it adds through CSP_NONCE
+    const { nonce } = options;
+    const requestedUrl = url.pathname + url.search;
+    const rendering = renderApplication(bootstrap, {
+      document: nonce ? stampNonce(document, nonce) : document,
+      url: requestedUrl,
+      platformProviders: providers,
+    });
+
+    const timeout = options.renderTimeout ?? this.renderTimeout;
+    const html = timeout
+      ? await withTimeout(rendering, timeout, requestedUrl, () => {
+          timedOut = true;
+          // The aborted render may still reject later
+          rendering.catch(() => undefined);
+          abort();
+        })
+      : await rendering;
+
+    const { headers, cookies } = response.collect();
+
+    // A guard or redirectTo route moved the router to another URL
+    const finalUrl = location ? `${location.pathname}${location.search}` : requestedUrl;
+    if (response.status < 300 && !isSameUrl(requestedUrl, finalUrl)) {
+      return {
+        html: '',
+        status: options.redirectStatus ?? this.redirectStatus,
+        headers: mergeHeaders(this.getResponseHeaders(), { ...headers, Location: finalUrl }),
+        cookies,
+        path: url.pathname,
+        tags: [...tags],
       };
     }
+
+    return {
+      html: nonce ? stampRootNonce(html, nonce) : html,
+      status: response.status,
+      headers: mergeHeaders(this.getResponseHeaders(), headers),
+      cookies,
+      path: url.pathname,
+      tags: [...tags],
+      nonce,
+    };
   }
 
   /**
-   * Render an error page
+   * Default headers for a rendered page
    */
-  private renderErrorPage(message: string): string {
+  private getResponseHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'text/html; charset=utf-8',
+      'X-Rendered-By': 'bun-angular-ssr',
+    };
+  }
+
+  /**
+   * Check whether a rendered page may be stored in the cache
+   *
+   * Pages setting cookies are personalized and never cached. Error statuses
+   * are only cached when listed in `cacheableStatuses`.
+   */
+  private isCacheable(page: RenderedPage): boolean {
+    if (page.cookies.length > 0) return false;
+    return this.cacheableStatuses
+      ? this.cacheableStatuses.includes(page.status)
+      : page.status < 400;
+  }
+
+  /**
+   * Read a rendered page from the cache, treating store failures as misses
+   */
+  private async readFromCache(cacheKey: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.cache?.get(cacheKey);
+    } catch (error) {
+      this.logger.error(`Cache read failed for ${cacheKey}`, { cacheKey, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a rendered page in the cache
+   */
+  private async storeInCache(
+    cacheKey: string,
+    page: RenderedPage,
+    ttl = this.cacheTtl
+  ): Promise<void> {
+    if (!this.cache) return;
+    const cacheEntry: CacheEntry = {
+      html: page.html,
+      status: page.status,
+      headers: page.headers,
+      timestamp: Date.now(),
+      expiresAt: Date.now() + ttl,
+      path: page.path,
+      tags: page.tags.length > 0 ? page.tags : undefined,
+      nonce: page.nonce,
+    };
+    // Keep the entry around for as long as it may be served stale
+    const storeTtl = ttl + Math.max(this.staleWhileRevalidate, this.staleIfError);
+    try {
+      await this.cache.set(cacheKey, cacheEntry, storeTtl);
+    } catch (error) {
+      this.logger.error(`Cache write failed for ${cacheKey}`, { cacheKey, error });
+    }
+  }
+
+  /**
+   * Respond to a render that cannot be queued
+   *
+   * Serves the stale page if there is one, then the client-side shell with
+   * `overloadFallback: 'shell'`, and otherwise a 503 with Retry-After.
+   */
+  private renderOverloaded(
+    options: RenderOptions,
+    fallback: CacheEntry | undefined,
+    cacheStatus: CacheStatus,
+    startTime: number
+  ): RenderResult {
+    this.renderErrors.inc({ reason: 'overload' });
+    if (fallback) {
+      this.logger.warn(`Render queue full, serving stale page for ${options.url}`, {
+        url: options.url,
+      });
+      return this.fromCacheEntry(fallback, 'STALE', startTime);
+    }
+
+    if (this.overloadFallback === 'shell') {
+      try {
+        const html = this.getDocument(options.document);
+        this.logger.warn(`Render queue full, serving client-side shell for ${options.url}`, {
+          url: options.url,
+        });
+        return this.fromShell(html, 'overload', cacheStatus, startTime, options.nonce);
+      } catch {
+        // No template to fall back to
+      }
+    }
+
+    this.logger.warn(`Render queue full, rejecting ${options.url}`, { url: options.url });
+    return {
+      html: this.renderUnavailablePage(),
+      status: 503,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Retry-After': String(this.retryAfter),
+      },
+      fromCache: false,
+      cacheStatus,
+      renderTime: performance.now() - startTime,
+    };
+  }
+
+  /**
+   * Build a result serving the unrendered client-side shell
+   */
+  private fromShell(
+    html: string,
+    reason: 'timeout' | 'error' | 'overload',
+    cacheStatus: CacheStatus,
+    startTime: number,
+    nonce?: string
+  ): RenderResult {
+    return {
+      html: nonce ? stampNonce(html, nonce) : html,
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-Render-Mode': 'csr-fallback',
+        'X-Render-Fallback': reason,
+      },
+      fromCache: false,
+      cacheStatus,
+      renderTime: performance.now() - startTime,
+      nonce,
+    };
+  }
+
+  /**
+   * Get the client-side rendering shell to serve instead of a failed render
+   *
+   * Timed out renders always fall back to the shell; other errors only do
+   * with `csrFallbackOnError`. Returns null when the error page should be
+   * rendered instead.
+   */
+  private getCsrFallback(
+    error: unknown,
+    options: RenderOptions
+  ): { html: string; reason: 'timeout' | 'error' } | null {
+    const reason =
+      error instanceof RenderTimeoutError ? 'timeout' : this.csrFallbackOnError ? 'error' : null;
+    if (!reason) return null;
+
+    let html: string;
+    try {
+      html = this.getDocument(options.document);
+    } catch {
+      return null;
+    }
+
+    if (error instanceof RenderTimeoutError) {
+      this.logger.warn(
+        `Render timed out after ${error.timeout}ms for ${options.url}, serving client-side shell`,
+        { url: options.url, timeout: error.timeout }
+      );
+    } else {
+      this.logger.error(`Render error for ${options.url}, serving client-side shell`, {
+        url: options.url,
+        error,
+      });
+    }
+    return { html, reason };
+  }
+
+  /**
+   * Log a render error and produce the error page
+   *
+   * In development, the error page shows the escaped message, the
+   * source-mapped stack trace, the providers and the render time. In
+   * production, `errorPage` is used if set, then `500.html` from the
+   * browser distribution folder, then a generic page.
+   */
+  private async handleRenderError(
+    error: unknown,
+    options: RenderOptions,
+    startTime: number
+  ): Promise<string> {
+    this.logger.error(`Render error for ${options.url}`, { url: options.url, error });
+
+    if (this.development) {
+      const stack = error instanceof Error ? error.stack : undefined;
+      return renderDevErrorPage({
+        error,
+        url: options.url,
+        stack: stack && this.stackMapper ? this.stackMapper.map(stack) : stack,
+        providers: getProviderNames([...this.providers, ...(options.providers ?? [])]),
+        renderTime: performance.now() - startTime,
+      });
+    }
+
+    if (this.errorPage) {
+      try {
+        return await this.errorPage(error, options.request);
+      } catch (pageError) {
+        this.logger.error('Error page renderer failed', { error: pageError });
+      }
+    }
+    return this.getErrorPageContent() ?? renderErrorPage();
+  }
+
+  /**
+   * Get the custom 500.html page, or null if there is none
+   */
+  private getErrorPageContent(): string | null {
+    if (this.errorPageContent === undefined) {
+      const path = join(this.browserDistFolder, '500.html');
+      this.errorPageContent = existsSync(path) ? readFileSync(path, 'utf-8') : null;
+    }
+    return this.errorPageContent;
+  }
+
+  /**
+   * Render the page returned while the render queue is full
+   */
+  private renderUnavailablePage(): string {
     return `<!DOCTYPE html>
-<html lang="en">
+<html>
 <head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Server Error</title>
-  <style>
-    body {
-      font-family: system-ui, -apple-system, sans-serif;
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      min-height: 100vh;
-      margin: 0;
-      background: #0f0f0f;
-      color: #fff;
-    }
-    .error-container {
-      text-align: center;
-      padding: 2rem;
-      max-width: 600px;
-    }
-    h1 {
-      font-size: 4rem;
-      margin: 0;
-      background: linear-gradient(135deg, #ff6b6b, #feca57);
-      -webkit-background-clip: text;
-      -webkit-text-fill-color: transparent;
-      background-clip: text;
-    }
-    p {
-      color: #888;
-      margin-top: 1rem;
-    }
-    code {
-      display: block;
-      margin-top: 1rem;
-      padding: 1rem;
-      background: #1a1a1a;
-      border-radius: 8px;
-      font-size: 0.875rem;
-      color: #ff6b6b;
-      word-break: break-word;
-    }
-  </style>
+  <meta charset="utf-8">
+  <title>Service Unavailable</title>
 </head>
 <body>
-  <div class="error-container">
-    <h1>500</h1>
-    <p>An error occurred while rendering this page.</p>
-    ${process.env['NODE_ENV'] !== 'production' ? `<code>${message}</code>` : ''}
-  </div>
+  <h1>503</h1>
+  <p>The server is busy. Please try again in a moment.</p>
 </body>
 </html>`;
   }
@@ -232,27 +1141,135 @@ export class BunAngularEngine {
   /**
    * Clear the render cache
    */
-  clearCache(): void {
-    this.cache?.clear();
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Remove cached pages matching any of the given tags, paths or path prefix
+   *
+   * Resolves to the number of removed entries.
+   */
+  async invalidate(criteria: InvalidateOptions): Promise<number> {
+    if (!this.cache) return 0;
+    const tags = new Set(criteria.tags ?? []);
+    const paths = new Set(criteria.paths ?? []);
+    const { prefix } = criteria;
+
+    let removed = 0;
+    const keys = await this.getCacheKeys();
+    // Read in batches to keep individual reads of remote stores small
+    for (let i = 0; i < keys.length; i += 100) {
+      const batch = keys.slice(i, i + 100);
+      const entries = await this.peekCache(batch);
+      for (const [index, key] of batch.entries()) {
+        const entry = entries[index];
+        if (!entry) continue;
+
+        // Entries written before paths were recorded fall back to the key
+        const path = entry.path ?? key.split(/[?|]/)[0];
+        const matches =
+          paths.has(path) ||
+          (prefix !== undefined && path.startsWith(prefix)) ||
+          (entry.tags ?? []).some((tag) => tags.has(tag));
+
+        if (matches && (await this.cache.delete(key))) {
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Read several pages from the cache without counting as a use of them,
+   * treating store failures as misses
+   *
+   * Stores without `getMany` are read with `get`.
+   */
+  private async peekCache(cacheKeys: string[]): Promise<(CacheEntry | undefined)[]> {
+    if (!this.cache?.getMany) {
+      return Promise.all(cacheKeys.map((cacheKey) => this.readFromCache(cacheKey)));
+    }
+    try {
+      return await this.cache.getMany(cacheKeys);
+    } catch (error) {
+      this.logger.error(`Cache read failed for ${cacheKeys.length} keys`, { error });
+      return cacheKeys.map(() => undefined);
+    }
+  }
+
+  /**
+   * Get the cache keys of this engine, leaving out other locales' entries
+   * in a shared store
+   */
+  private async getCacheKeys(): Promise<string[]> {
+    const keys = (await this.cache?.keys()) ?? [];
+    return this.locale ? keys.filter((key) => key.endsWith(`|locale=${this.locale}`)) : keys;
   }
 
   /**
    * Get cache statistics
+   *
+   * `maxSize` is only reported by stores with a fixed capacity.
    */
-  getCacheStats(): { size: number; maxSize: number } | null {
+  async getCacheStats(): Promise<{ size: number; maxSize?: number } | null> {
     if (!this.cache) return null;
+    const keys = await this.getCacheKeys();
     return {
-      size: this.cache.size,
-      maxSize: this.cache.maxSize,
+      size: keys.length,
+      maxSize: this.cache instanceof MemoryCacheStore ? this.cache.maxSize : undefined,
     };
   }
 
+  /**
+   * Get render worker pool statistics, or null when rendering in-process
+   */
+  getWorkerStats(): RenderWorkerPoolStats | null {
+    return this.workerPool?.getStats() ?? null;
+  }
+
+  /**
+   * Get render queue statistics, or null when renders are not limited
+   */
+  getRenderQueueStats(): RenderQueueStats | null {
+    return this.limiter?.getStats() ?? null;
+  }
+
+  /**
+   * Terminate render workers
+   */
+  close(): void {
+    this.workerPool?.close();
+    void this.tracer?.close();
+  }
+
   /**
    * Reload the index.html template (useful for development)
    */
   reloadTemplate(): void {
     this.indexHtmlContent = null;
     this.loadIndexHtml();
+    this.errorPageContent = undefined;
+    this.criticalCss?.clear();
+    this.stackMapper?.clear();
+  }
+
+  /**
+   * Whether the index.html template is loaded, trying to load it if not
+   */
+  hasTemplate(): boolean {
+    if (!this.indexHtmlContent) {
+      this.loadIndexHtml();
+    }
+    return this.indexHtmlContent !== null;
+  }
+
+  /**
+   * Get the request headers the render cache varies on, for the `Vary` header
+   */
+  getVaryHeaders(): string[] {
+    return this.varyHeaders;
   }
 
   /**
@@ -0,0 +1,185 @@
+import type { StaticProvider } from '@angular/core';
+
+/**
+ * Renders the page served when a render fails in production
+ */
+export type ErrorPageRenderer = (error: unknown, request?: Request) => string | Promise<string>;
+
+/**
+ * Details shown on the development error page
+ */
+export interface ErrorPageDetails {
+  /**
+   * The error thrown while rendering
+   */
+  error: unknown;
+
+  /**
+   * URL of the failed render
+   */
+  url: string;
+
+  /**
+   * Stack trace, mapped to original sources where possible
+   */
+  stack?: string;
+
+  /**
+   * Names of the providers passed to the render
+   */
+  providers: string[];
+
+  /**
+   * Time in milliseconds until the render failed
+   */
+  renderTime: number;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Get a readable name for each provider token
+ */
+export function getProviderNames(providers: StaticProvider[]): string[] {
+  return providers.flatMap((provider): string[] => {
+    if (Array.isArray(provider)) {
+      return getProviderNames(provider);
+    }
+    const token: unknown = provider.provide;
+    return [typeof token === 'function' ? token.name || 'anonymous' : String(token)];
+  });
+}
+
+/**
+ * Styles shared by the error pages
+ */
+const ERROR_PAGE_STYLES = `
+    body {
+      font-family: system-ui, -apple-system, sans-serif;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      margin: 0;
+      background: #0f0f0f;
+      color: #fff;
+    }
+    .error-container {
+      text-align: center;
+      padding: 2rem;
+      max-width: 600px;
+    }
+    h1 {
+      font-size: 4rem;
+      margin: 0;
+      background: linear-gradient(135deg, #ff6b6b, #feca57);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+      background-clip: text;
+    }
+    p {
+      color: #888;
+      margin-top: 1rem;
+    }`;
+
+/**
+ * Render the default production error page, without error details
+ */
+export function renderErrorPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Server Error</title>
+  <style>${ERROR_PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <div class="error-container">
+    <h1>500</h1>
+    <p>An error occurred while rendering this page.</p>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Render the development error overlay
+ *
+ * Every detail is HTML-escaped, so error messages containing markup are
+ * shown as text.
+ */
+export function renderDevErrorPage(details: ErrorPageDetails): string {
+  const { error, url, stack, providers, renderTime } = details;
+  const name = error instanceof Error ? error.name : 'Error';
+  const message = error instanceof Error ? error.message : String(error);
+  const providerList = providers.length
+    ? providers.map((provider) => `<li>${escapeHtml(provider)}</li>`).join('')
+    : '<li>none</li>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Server Error: ${escapeHtml(message)}</title>
+  <style>${ERROR_PAGE_STYLES}
+    .error-container {
+      text-align: left;
+      max-width: 960px;
+      width: 100%;
+    }
+    h2 {
+      font-size: 1.25rem;
+      color: #ff6b6b;
+      word-break: break-word;
+    }
+    h3 {
+      font-size: 0.875rem;
+      text-transform: uppercase;
+      color: #888;
+      margin: 1.5rem 0 0.5rem;
+    }
+    pre, ul {
+      margin: 0;
+      padding: 1rem;
+      background: #1a1a1a;
+      border-radius: 8px;
+      font-size: 0.875rem;
+      overflow-x: auto;
+    }
+    ul {
+      list-style: none;
+    }
+  </style>
+</head>
+<body>
+  <div class="error-container">
+    <h1>500</h1>
+    <h2>${escapeHtml(name)}: ${escapeHtml(message)}</h2>
+    <h3>URL</h3>
+    <pre>${escapeHtml(url)}</pre>
+    <h3>Stack trace</h3>
+    <pre>${escapeHtml(stack ?? 'No stack trace available')}</pre>
+    <h3>Providers</h3>
+    <ul>${providerList}</ul>
+    <h3>Render time</h3>
+    <pre>${renderTime.toFixed(1)}ms</pre>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Thrown when a render does not finish within the configured timeout
+ */
+export class RenderTimeoutError extends Error {
+  constructor(
+    readonly url: string,
+    readonly timeout: number
+  ) {
+    super(`Render of ${url} timed out after ${timeout}ms`);
+    this.name = 'RenderTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a render cannot be queued because the render queue is full
+ */
+export class RenderQueueFullError extends Error {
+  constructor(readonly maxQueueLength: number) {
+    super(`Render queue is full (${maxQueueLength} waiting)`);
+    this.name = 'RenderQueueFullError';
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRequestHandler } from './handler';
+import { createDocumentStream } from './stream';
+import { MetricsRegistry } from './metrics';
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+import type { RenderResult } from './types';
+
+vi.mock('@angular/platform-server', () => ({
+  renderApplication: vi.fn(),
+}));
+
+vi.mock('@angular/common', () => ({
+  PlatformLocation: class PlatformLocation {},
+}));
+
+const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+/**
+ * Create an engine stub returning the given result
+ */
+function createEngine(result: Partial<RenderResult>): BunAngularEngine {
+  return {
+    logger,
+    metrics: new MetricsRegistry(logger),
+    tracer: null,
+    getVaryHeaders: () => [],
+    render: vi.fn(async () => ({
+      html: '',
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      fromCache: false,
+      cacheStatus: 'MISS',
+      renderTime: 1,
+      ...result,
+    })),
+  } as unknown as BunAngularEngine;
+}
+
+describe('createRequestHandler streaming', () => {
+  it('should send streamed results with their status, headers and cookies', async () => {
+    const html = '<html><head></head><body>Not found</body></html>';
+    const handler = createRequestHandler({
+      engine: createEngine({
+        stream: createDocumentStream(html),
+        status: 404,
+        headers: { 'Content-Type': 'text/html; charset=utf-8', 'X-Robots-Tag': 'noindex' },
+        cookies: ['visited=1; Path=/'],
+      }),
+    });
+
+    const response = await handler(new Request('http://localhost/missing'));
+    expect(response.status).toBe(404);
+    expect(response.headers.get('X-Robots-Tag')).toBe('noindex');
+    expect(response.headers.get('Set-Cookie')).toBe('visited=1; Path=/');
+    expect(await response.text()).toBe(html);
+  });
+
+  it('should send buffered results as their html', async () => {
+    const handler = createRequestHandler({
+      engine: createEngine({ html: '<p>page</p>' }),
+    });
+
+    const response = await handler(new Request('http://localhost/'));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('<p>page</p>');
+  });
+});
+
+describe('createRequestHandler access log', () => {
+  const server = { requestIP: () => ({ address: '10.0.0.1' }) };
+  const request = () =>
+    new Request('http://localhost/', { headers: { 'X-Forwarded-For': '6.6.6.6, 10.0.0.2' } });
+
+  function createLoggedHandler(trustProxy?: boolean) {
+    const info = vi.fn();
+    const handler = createRequestHandler({
+      engine: createEngine({ html: '<p>page</p>' }),
+      logging: true,
+      logger: { ...logger, info },
+      trustProxy,
+    });
+    return { handler, info };
+  }
+
+  it('should log the socket address by default', async () => {
+    const { handler, info } = createLoggedHandler();
+
+    await handler(request(), server);
+    expect(info.mock.calls[0][1]).toMatchObject({ remoteAddress: '10.0.0.1' });
+  });
+
+  it('should log the forwarded address with trustProxy', async () => {
+    const { handler, info } = createLoggedHandler(true);
+
+    await handler(request(), server);
+    expect(info.mock.calls[0][1]).toMatchObject({ remoteAddress: '6.6.6.6' });
+  });
+});
@@ -1,11 +1,22 @@
 import type { BunAngularEngine } from './engine';
 import type { BunStaticFileHandler } from './static';
 import type { StaticProvider } from '@angular/core';
+import { createRouteMatcher, getRouteRenderOptions } from './routes';
+import type { RouteConfig } from './types';
+import { parseTraceparent, type Span } from './tracing';
+import type { Logger } from './logger';
+import {
+  createAccessLogger,
+  type AccessLogOptions,
+  type AccessLogType,
+} from './access-log';
 
 /**
  * Options for creating a request handler
+ *
+ * @typeParam TContext - Type of the request context created by `getRequestContext`
  */
-export interface RequestHandlerOptions {
+export interface RequestHandlerOptions<TContext = unknown> {
   /**
    * The Angular SSR engine instance
    */
@@ -16,6 +27,12 @@ export interface RequestHandlerOptions {
    */
   staticHandler?: BunStaticFileHandler;
 
+  /**
+   * Per-route render rules (render mode, headers, status and caching).
+   * The first route matching the request pathname applies.
+   */
+  routes?: RouteConfig[];
+
   /**
    * Routes that should skip SSR and serve static HTML
    */
@@ -27,7 +44,8 @@ export interface RequestHandlerOptions {
   clientOnlyRoutes?: string[];
 
   /**
-   * Base href for the application
+   * Base href for the application. Route rules are matched relative to it,
+   * and the client-side shell is served from it.
    * @default '/'
    */
   baseHref?: string;
@@ -38,6 +56,26 @@ export interface RequestHandlerOptions {
    */
   logging?: boolean;
 
+  /**
+   * Access log format and file. Without it, requests are logged through
+   * `logger`. Setting it enables request logging.
+   */
+  accessLog?: AccessLogOptions;
+
+  /**
+   * Logger for errors and, without `accessLog`, for requests
+   * @default the engine's logger
+   */
+  logger?: Logger;
+
+  /**
+   * Log the client address from the `X-Forwarded-For` header instead of the
+   * socket address. Only enable it behind a proxy that sets the header, as
+   * clients can send it themselves.
+   * @default false
+   */
+  trustProxy?: boolean;
+
   /**
    * Custom error handler
    */
@@ -47,28 +85,59 @@ export interface RequestHandlerOptions {
    * Hook to add custom providers per request
    */
   getProviders?: (request: Request) => StaticProvider[];
+
+  /**
+   * Hook to create the request context, provided to the application
+   * through Angular's `REQUEST_CONTEXT` token. With engine `workers`, the
+   * context must be structured-cloneable.
+   */
+  getRequestContext?: (request: Request) => TContext | Promise<TContext>;
+}
+
+/**
+ * The part of Bun's Server used to look up the client address of a request
+ */
+export interface RequestIpSource {
+  requestIP(request: Request): { address: string } | null;
 }
 
 /**
  * Request handler type for Bun.serve
  */
-export type BunRequestHandler = (request: Request) => Promise<Response>;
+export type BunRequestHandler = (request: Request, server?: RequestIpSource) => Promise<Response>;
+
+/**
+ * Request handler for Angular SSR, with its access log to close on shutdown
+ */
+export interface ClosableRequestHandler {
+  (request: Request, server?: RequestIpSource): Promise<Response>;
+
+  /**
+   * Write the queued access log lines and close the log file
+   */
+  close(): Promise<void>;
+}
 
 /**
  * Create a request handler for Bun.serve that handles Angular SSR
  */
-export function createRequestHandler(
-  options: RequestHandlerOptions
-): BunRequestHandler {
+export function createRequestHandler<TContext = unknown>(
+  options: RequestHandlerOptions<TContext>
+): ClosableRequestHandler {
   const {
     engine,
     staticHandler,
+    routes = [],
     staticRoutes = [],
     clientOnlyRoutes = [],
     baseHref = '/',
     logging = false,
+    accessLog,
+    logger = engine.logger,
+    trustProxy = false,
     onError,
     getProviders,
+    getRequestContext,
   } = options;
 
   // Compile route patterns
@@ -78,6 +147,18 @@ export function createRequestHandler(
   const clientOnlyPatterns = clientOnlyRoutes.map((route) =>
     new RegExp(`^${route.replace(/\*/g, '.*')}$`)
   );
+  const matchRoute = createRouteMatcher(routes);
+  const basePrefix = baseHref.replace(/\/+$/, '');
+
+  // Metrics recorded in the engine's registry
+  const renderDuration = engine.metrics.histogram(
+    'ngx_bun_render_duration_seconds',
+    'Time to produce SSR responses by route pattern and cache status'
+  );
+  const staticResponses = engine.metrics.counter(
+    'ngx_bun_static_responses_total',
+    'Static file, prerendered page and client shell responses by status'
+  );
 
   // Common static file extensions
   const staticExtensions = new Set([
@@ -127,105 +208,219 @@ export function createRequestHandler(
     return patterns.some((pattern) => pattern.test(pathname));
   }
 
+  /**
+   * Serve a prerendered HTML file for a pathname
+   */
+  async function servePrerendered(
+    pathname: string,
+    request: Request
+  ): Promise<Response | null> {
+    if (!staticHandler) return null;
+    const clean = pathname.replace(/\/+$/, '');
+    // prerenderRoutes writes `<path>/index.html`; also accept `<path>.html`
+    const candidates = clean
+      ? [`${clean}/index.html`, `${clean}.html`]
+      : ['/index.html'];
+    for (const htmlPath of candidates) {
+      const response = await staticHandler.serve(htmlPath, request);
+      if (response) return response;
+    }
+    return null;
+  }
+
+  /**
+   * Serve the unrendered index.html under the base href for client-side
+   * rendering
+   */
+  async function serveClientShell(request: Request): Promise<Response | null> {
+    const shellPath = `${basePrefix}/index.html`;
+    return staticHandler ? staticHandler.serve(shellPath, request) : null;
+  }
+
+  /**
+   * Apply a route's headers and status override to a response
+   *
+   * The status override only replaces successful (200) responses.
+   */
+  function applyRouteConfig(response: Response, route: RouteConfig | undefined): Response {
+    if (!route || (!route.headers && route.status === undefined)) {
+      return response;
+    }
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(route.headers ?? {})) {
+      headers.set(name, value);
+    }
+    const status =
+      route.status !== undefined && response.status === 200 ? route.status : response.status;
+    return new Response(response.body, { status, headers });
+  }
+
+  const writeAccessLog = logging || accessLog ? createAccessLogger(accessLog, logger) : null;
+
   /**
    * Log a request
    */
   function logRequest(
-    method: string,
-    pathname: string,
+    request: Request,
+    server: RequestIpSource | undefined,
+    url: URL,
     status: number,
     duration: number,
-    type: 'ssr' | 'static' | 'client' | 'error'
+    type: AccessLogType,
+    response?: Response
   ): void {
-    if (!logging) return;
-    const timestamp = new Date().toISOString();
-    const typeColors: Record<string, string> = {
-      ssr: '\x1b[35m', // magenta
-      static: '\x1b[36m', // cyan
-      client: '\x1b[33m', // yellow
-      error: '\x1b[31m', // red
-    };
-    const reset = '\x1b[0m';
-    console.log(
-      `${timestamp} ${typeColors[type]}[${type.toUpperCase()}]${reset} ${method} ${pathname} ${status} ${duration.toFixed(2)}ms`
-    );
+    if (!writeAccessLog) return;
+    const size = response?.headers.get('Content-Length');
+    writeAccessLog({
+      time: new Date(),
+      method: request.method,
+      url: url.pathname + url.search,
+      status,
+      duration,
+      type,
+      size: size ? Number(size) : undefined,
+      remoteAddress: trustProxy
+        ? request.headers.get('X-Forwarded-For')?.split(',')[0].trim()
+        : server?.requestIP(request)?.address,
+      referer: request.headers.get('Referer') ?? undefined,
+      userAgent: request.headers.get('User-Agent') ?? undefined,
+    });
   }
 
-  return async function handler(request: Request): Promise<Response> {
+  /**
+   * Run a step of a request in a child span of the request span
+   */
+  function traced<T>(name: string, span: Span | undefined, fn: () => Promise<T>): Promise<T> {
+    const { tracer } = engine;
+    return tracer && span ? tracer.trace(name, { parent: span.context }, fn) : fn();
+  }
+
+  /**
+   * Handle a request, optionally within a request span
+   */
+  async function handleRequest(
+    request: Request,
+    server?: RequestIpSource,
+    span?: Span
+  ): Promise<Response> {
     const startTime = performance.now();
     const url = new URL(request.url);
     const pathname = url.pathname;
+    // Route rules are relative to the base href (such as a locale prefix)
+    const appPath =
+      basePrefix && pathname.startsWith(`${basePrefix}/`)
+        ? pathname.slice(basePrefix.length)
+        : pathname;
 
     try {
       // Handle static files first
       if (staticHandler && isStaticFile(pathname)) {
-        const response = await staticHandler.serve(pathname, request);
+        const response = await traced('static.lookup', span, () =>
+          staticHandler.serve(pathname, request)
+        );
         if (response) {
           const duration = performance.now() - startTime;
-          logRequest(request.method, pathname, response.status, duration, 'static');
+          logRequest(request, server, url, response.status, duration, 'static', response);
+          staticResponses.inc({ status: response.status });
           return response;
         }
       }
 
-      // Check for static routes (serve without SSR)
-      if (matchesPatterns(pathname, staticRoutePatterns)) {
-        if (staticHandler) {
-          // Try to serve a prerendered HTML file
-          const htmlPath = pathname.endsWith('/')
-            ? `${pathname}index.html`
-            : `${pathname}.html`;
-          const response = await staticHandler.serve(htmlPath, request);
-          if (response) {
-            const duration = performance.now() - startTime;
-            logRequest(request.method, pathname, response.status, duration, 'static');
-            return response;
-          }
+      const route = matchRoute(appPath);
+      if (span && route) {
+        span.name = `${request.method} ${route.path}`;
+        span.setAttribute('http.route', route.path);
+      }
+
+      // Check for prerendered routes (serve without SSR)
+      if (
+        route
+          ? route.renderMode === 'prerender'
+          : matchesPatterns(appPath, staticRoutePatterns)
+      ) {
+        const response = await traced('static.lookup', span, () =>
+          servePrerendered(pathname, request)
+        );
+        if (response) {
+          const duration = performance.now() - startTime;
+          logRequest(request, server, url, response.status, duration, 'static', response);
+          staticResponses.inc({ status: response.status });
+          return applyRouteConfig(response, route);
         }
       }
 
       // Check for client-only routes (skip SSR)
-      if (matchesPatterns(pathname, clientOnlyPatterns)) {
-        if (staticHandler) {
-          const response = await staticHandler.serve('/index.html', request);
-          if (response) {
-            const duration = performance.now() - startTime;
-            logRequest(request.method, pathname, response.status, duration, 'client');
-            return response;
-          }
+      if (
+        route
+          ? route.renderMode === 'client'
+          : matchesPatterns(appPath, clientOnlyPatterns)
+      ) {
+        const response = await traced('static.lookup', span, () => serveClientShell(request));
+        if (response) {
+          const duration = performance.now() - startTime;
+          logRequest(request, server, url, response.status, duration, 'client', response);
+          staticResponses.inc({ status: response.status });
+          return applyRouteConfig(response, route);
         }
       }
 
       // SSR rendering
       const requestUrl = `${url.pathname}${url.search}`;
       const providers = getProviders ? getProviders(request) : [];
+      const requestContext = getRequestContext ? await getRequestContext(request) : undefined;
 
       const result = await engine.render({
         url: requestUrl,
         request,
+        requestContext,
         providers,
+        ...getRouteRenderOptions(route),
+        traceparent: span?.traceparent,
       });
 
-      const response = new Response(result.html, {
-        status: result.status,
-        headers: {
-          ...result.headers,
-          'X-Render-Time': `${result.renderTime.toFixed(2)}ms`,
-          'X-Cache-Hit': result.fromCache ? 'true' : 'false',
-        },
-      });
+      const headers: Record<string, string> = {
+        ...result.headers,
+        'X-Render-Time': `${result.renderTime.toFixed(2)}ms`,
+        'X-Cache': result.cacheStatus,
+      };
+
+      // Let shared caches know which request headers the page depends on
+      const varyHeaders = engine.getVaryHeaders();
+      if (varyHeaders.length > 0) {
+        headers['Vary'] = varyHeaders.join(', ');
+      }
+
+      // Set-Cookie values need separate header lines
+      const responseHeaders = new Headers(headers);
+      for (const cookie of result.cookies ?? []) {
+        responseHeaders.append('Set-Cookie', cookie);
+      }
+
+      // Streamed renders hand their body straight to Bun.serve
+      const response = applyRouteConfig(
+        new Response(result.stream ?? result.html, {
+          status: result.status,
+          headers: responseHeaders,
+        }),
+        route
+      );
 
       const duration = performance.now() - startTime;
-      logRequest(request.method, pathname, response.status, duration, 'ssr');
+      logRequest(request, server, url, response.status, duration, 'ssr', response);
+      renderDuration.observe(result.renderTime / 1000, {
+        route: route?.path ?? '**',
+        cache: result.cacheStatus.toLowerCase(),
+      });
       return response;
     } catch (error) {
       const duration = performance.now() - startTime;
-      logRequest(request.method, pathname, 500, duration, 'error');
+      logRequest(request, server, url, 500, duration, 'error');
 
       if (onError && error instanceof Error) {
         return onError(error, request);
       }
 
-      console.error('[BunAngularSSR] Request error:', error);
+      logger.error(`Request error for ${pathname}`, { url: pathname, error });
 
       return new Response(
         `<!DOCTYPE html>
@@ -244,5 +439,37 @@ export function createRequestHandler(
         }
       );
     }
-  };
+  }
+
+  async function handler(request: Request, server?: RequestIpSource): Promise<Response> {
+    const { tracer } = engine;
+    if (!tracer) {
+      return handleRequest(request, server);
+    }
+
+    // Continue the caller's trace
+    const url = new URL(request.url);
+    return tracer.trace(
+      request.method,
+      {
+        parent: parseTraceparent(request.headers.get('traceparent')),
+        kind: 'server',
+        attributes: { 'http.request.method': request.method, 'url.path': url.pathname },
+      },
+      async (span) => {
+        const response = await handleRequest(request, server, span);
+        span.setAttribute('http.response.status_code', response.status);
+        if (response.status >= 500) {
+          span.recordError(`HTTP ${response.status}`);
+        }
+        return response;
+      }
+    );
+  }
+
+  return Object.assign(handler, {
+    close: async () => {
+      await writeAccessLog?.close();
+    },
+  });
 }
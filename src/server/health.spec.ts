@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ServerHealth, createHealthHandler } from './health';
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+
+function setup(render = vi.fn().mockResolvedValue({ status: 200 }), hasTemplate = () => true) {
+  const engine = { render, hasTemplate } as unknown as BunAngularEngine;
+  const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const health = new ServerHealth(engine, logger);
+  const check = createHealthHandler(health);
+  return { render, logger, health, check };
+}
+
+async function probe(check: (request: Request) => Response | null, path: string) {
+  const response = check(new Request(`http://localhost${path}`));
+  return response && { status: response.status, body: await response.json() };
+}
+
+describe('ServerHealth', () => {
+  it('should become ready after rendering the warmup URLs', async () => {
+    const { render, health, check } = setup();
+
+    expect((await probe(check, '/readyz'))?.status).toBe(503);
+    await health.warmup(['/', '/products']);
+
+    expect(render.mock.calls.map(([options]) => options.url)).toEqual(['/', '/products']);
+    expect(render).toHaveBeenCalledWith({ url: '/', stream: false });
+    expect(await probe(check, '/readyz')).toEqual({
+      status: 200,
+      body: {
+        status: 'ready',
+        ready: true,
+        checks: { template: true, warmup: { completed: 2, total: 2, failed: [] } },
+      },
+    });
+  });
+
+  it('should report failed warmup renders without blocking readiness', async () => {
+    const render = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ status: 500 });
+    const { health, logger } = setup(render);
+
+    await health.warmup(['/a', '/b']);
+
+    expect(health.isReady).toBe(true);
+    expect(health.getReadiness().checks.warmup.failed).toEqual(['/a', '/b']);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not be ready without a template', async () => {
+    const { health } = setup(undefined, () => false);
+    await health.warmup();
+
+    expect(health.status).toBe('ready');
+    expect(health.isReady).toBe(false);
+  });
+
+  it('should fail readiness while draining', async () => {
+    const { health, check } = setup();
+    await health.warmup();
+    health.drain();
+
+    expect(await probe(check, '/readyz')).toMatchObject({
+      status: 503,
+      body: { status: 'draining', ready: false },
+    });
+    expect(await probe(check, '/healthz')).toEqual({ status: 200, body: { status: 'ok' } });
+  });
+});
+
+describe('createHealthHandler', () => {
+  it('should ignore other paths and reject other methods', () => {
+    const { check } = setup();
+
+    expect(check(new Request('http://localhost/products'))).toBeNull();
+    expect(check(new Request('http://localhost/healthz', { method: 'POST' }))?.status).toBe(405);
+  });
+});
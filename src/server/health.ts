@@ -0,0 +1,185 @@
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+
+/**
+ * Options for the health check endpoints
+ */
+export interface HealthCheckOptions {
+  /**
+   * Path of the liveness endpoint, answering 200 while the process serves
+   * requests
+   * @default '/healthz'
+   */
+  livenessPath?: string;
+
+  /**
+   * Path of the readiness endpoint, answering 200 once the server can take
+   * traffic and 503 before that and while draining
+   * @default '/readyz'
+   */
+  readinessPath?: string;
+
+  /**
+   * URLs rendered through the engine before readiness passes
+   */
+  warmupUrls?: string[];
+
+  /**
+   * Time in milliseconds readiness fails before the server stops, so load
+   * balancers can take the instance out of rotation
+   * @default 0
+   */
+  drainDelay?: number;
+}
+
+/**
+ * Lifecycle state of a server
+ *
+ * - `starting`: warming up, not ready for traffic
+ * - `ready`: taking traffic
+ * - `draining`: shutting down, still serving in-flight requests
+ */
+export type ServerState = 'starting' | 'ready' | 'draining';
+
+/**
+ * Readiness report served by the readiness endpoint
+ */
+export interface ReadinessStatus {
+  status: ServerState;
+  ready: boolean;
+  checks: {
+    /**
+     * Whether the index.html template is loaded
+     */
+    template: boolean;
+
+    /**
+     * Warmup URLs rendered so far, and those that failed
+     */
+    warmup: { completed: number; total: number; failed: string[] };
+  };
+}
+
+/**
+ * ServerHealth - Tracks whether a server can take traffic
+ *
+ * The server starts in the `starting` state, becomes `ready` once the
+ * warmup URLs have rendered, and moves to `draining` on shutdown.
+ * Readiness additionally requires the engine's template to be loaded.
+ */
+export class ServerHealth {
+  private state: ServerState = 'starting';
+  private completed = 0;
+  private total = 0;
+  private failed: string[] = [];
+
+  constructor(
+    private readonly engine: Pick<BunAngularEngine, 'render' | 'hasTemplate'>,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Current lifecycle state
+   */
+  get status(): ServerState {
+    return this.state;
+  }
+
+  /**
+   * Whether the server can take traffic
+   */
+  get isReady(): boolean {
+    return this.state === 'ready' && this.engine.hasTemplate();
+  }
+
+  /**
+   * Render the warmup URLs one after another, then mark the server ready
+   *
+   * Failed renders are logged and reported by the readiness endpoint, but
+   * don't keep the server from becoming ready.
+   */
+  async warmup(urls: string[] = []): Promise<void> {
+    this.total = urls.length;
+    for (const url of urls) {
+      if (this.state === 'draining') return;
+      try {
+        const result = await this.engine.render({ url, stream: false });
+        if (result.status >= 500) {
+          this.failed.push(url);
+          this.logger.warn(`Warmup render of ${url} responded with ${result.status}`, {
+            url,
+            status: result.status,
+          });
+        }
+      } catch (error) {
+        this.failed.push(url);
+        this.logger.warn(`Warmup render of ${url} failed`, { url, error });
+      }
+      this.completed++;
+    }
+
+    if (this.state === 'starting') {
+      this.state = 'ready';
+      if (urls.length > 0) {
+        this.logger.info('Warmup complete', {
+          urls: urls.length,
+          failed: this.failed.length,
+        });
+      }
+    }
+  }
+
+  /**
+   * Fail readiness from now on
+   */
+  drain(): void {
+    this.state = 'draining';
+  }
+
+  /**
+   * Get the readiness report
+   */
+  getReadiness(): ReadinessStatus {
+    return {
+      status: this.state,
+      ready: this.isReady,
+      checks: {
+        template: this.engine.hasTemplate(),
+        warmup: { completed: this.completed, total: this.total, failed: [...this.failed] },
+      },
+    };
+  }
+}
+
+/**
+ * Create a handler serving the liveness and readiness endpoints, returning
+ * null for other paths
+ */
+export function createHealthHandler(
+  health: ServerHealth,
+  options: HealthCheckOptions = {}
+): (request: Request) => Response | null {
+  const livenessPath = options.livenessPath ?? '/healthz';
+  const readinessPath = options.readinessPath ?? '/readyz';
+  const headers = {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  };
+
+  return function healthCheck(request: Request): Response | null {
+    const { pathname } = new URL(request.url);
+    if (pathname !== livenessPath && pathname !== readinessPath) {
+      return null;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+    }
+
+    const body = pathname === livenessPath ? { status: 'ok' } : health.getReadiness();
+    const status = pathname === livenessPath || health.isReady ? 200 : 503;
+    return new Response(request.method === 'HEAD' ? null : JSON.stringify(body), {
+      status,
+      headers,
+    });
+  };
+}
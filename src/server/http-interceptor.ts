@@ -0,0 +1,128 @@
+import { inject } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+  type HttpEvent,
+  type HttpInterceptorFn,
+  type HttpRequest,
+} from '@angular/common/http';
+import { from, map, type Observable } from 'rxjs';
+import { SERVER_HTTP_CONTEXT, TRACE_PARENT } from './tokens';
+import type { ServerHttpResponse } from './http';
+
+// Prefix some backends put in front of JSON to prevent XSSI
+const XSSI_PREFIX = /^\)\]\}',?\n/;
+
+/**
+ * Convert an HttpClient request into a Fetch API request
+ */
+function toFetchRequest(req: HttpRequest<unknown>, url: string): Request {
+  const headers = new Headers();
+  for (const name of req.headers.keys()) {
+    for (const value of req.headers.getAll(name) ?? []) {
+      headers.append(name, value);
+    }
+  }
+
+  const body = req.serializeBody();
+  if (body !== null && !headers.has('Content-Type')) {
+    const contentType = req.detectContentTypeHeader();
+    if (contentType) headers.set('Content-Type', contentType);
+  }
+
+  return new Request(url, {
+    method: req.method,
+    headers,
+    body: body as RequestInit['body'],
+  });
+}
+
+/**
+ * Decode a buffered response body for the requested response type
+ */
+function decodeBody(req: HttpRequest<unknown>, response: ServerHttpResponse): unknown {
+  switch (req.responseType) {
+    case 'arraybuffer':
+      return response.body;
+    case 'blob': {
+      const type = new Headers(response.headers).get('Content-Type') ?? undefined;
+      return new Blob([response.body], { type });
+    }
+    case 'text':
+      return new TextDecoder().decode(response.body);
+    default: {
+      const text = new TextDecoder().decode(response.body).replace(XSSI_PREFIX, '');
+      if (text === '') return null;
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+  }
+}
+
+/**
+ * Convert a buffered response into an HttpClient response, throwing for
+ * error statuses like Angular's own backends
+ */
+function toHttpResponse(
+  req: HttpRequest<unknown>,
+  response: ServerHttpResponse
+): HttpEvent<unknown> {
+  let headers = new HttpHeaders();
+  for (const [name, value] of response.headers) {
+    headers = headers.append(name, value);
+  }
+
+  const init = {
+    body: decodeBody(req, response),
+    headers,
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url,
+  };
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpErrorResponse({ ...init, error: init.body });
+  }
+  return new HttpResponse(init);
+}
+
+/**
+ * HttpClient interceptor for server-side rendering
+ *
+ * Resolves relative URLs against the trusted origin of the render, answers
+ * same-origin calls registered in the engine's `http.handlers` in-process,
+ * and serves GET requests from the response cache shared across renders.
+ * Traced renders add their `traceparent` to outgoing requests. Outside of a
+ * ngx-bun render it passes requests through unchanged.
+ *
+ * ```typescript
+ * // app.config.server.ts
+ * provideHttpClient(withFetch(), withInterceptors([serverHttpInterceptor]))
+ * ```
+ */
+export const serverHttpInterceptor: HttpInterceptorFn = (
+  req,
+  next
+): Observable<HttpEvent<unknown>> => {
+  const traceparent = inject(TRACE_PARENT, { optional: true });
+  if (traceparent && !req.headers.has('traceparent')) {
+    req = req.clone({ setHeaders: { traceparent } });
+  }
+
+  const context = inject(SERVER_HTTP_CONTEXT, { optional: true });
+  if (!context) {
+    return next(req);
+  }
+
+  const url = new URL(req.urlWithParams, context.origin).href;
+  const request = toFetchRequest(req, url);
+  if (!context.intercepts(request)) {
+    return next(req.clone({ url: new URL(req.url, context.origin).href }));
+  }
+
+  return from(context.fetch(request)).pipe(map((response) => toHttpResponse(req, response)));
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ServerHttpFetcher } from './http';
+
+const text = (body: ArrayBuffer) => new TextDecoder().decode(body);
+
+describe('ServerHttpFetcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve the origin from incoming requests of allowed hosts', () => {
+    const fetcher = new ServerHttpFetcher({ allowedHosts: ['Shop.example'] });
+    expect(fetcher.createContext(new Request('https://shop.example/cart')).origin).toBe(
+      'https://shop.example'
+    );
+    expect(fetcher.createContext(new Request('https://evil.example/')).origin).not.toBe(
+      'https://evil.example'
+    );
+    expect(fetcher.createContext().origin).toBe('http://localhost');
+    expect(
+      new ServerHttpFetcher({ origin: 'http://backend:8080' }).createContext(
+        new Request('https://shop.example/')
+      ).origin
+    ).toBe('http://backend:8080');
+  });
+
+  it('should not fetch relative URLs from a spoofed Host', async () => {
+    const network = vi.fn(async () => new Response('poisoned'));
+    vi.stubGlobal('fetch', network);
+    const api = vi.fn(async () => new Response('products'));
+    const fetcher = new ServerHttpFetcher({ handlers: { '/api': api }, cacheTtl: 1000 });
+    const context = fetcher.createContext(new Request('http://evil.example/'));
+    const resolve = (path: string) => new Request(new URL(path, context.origin).href);
+
+    expect(context.intercepts(resolve('/cms/home'))).toBe(true);
+    await expect(context.fetch(resolve('/cms/home'))).rejects.toThrow('http.allowedHosts');
+    expect(text((await context.fetch(resolve('/api/products'))).body)).toBe('products');
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('should answer same-origin calls with in-process handlers', async () => {
+    const network = vi.fn(async () => new Response('network'));
+    vi.stubGlobal('fetch', network);
+    const api = vi.fn(async (request: Request) =>
+      Response.json({ path: new URL(request.url).pathname })
+    );
+    const context = new ServerHttpFetcher({
+      handlers: { '/api': api },
+      allowedHosts: ['shop.example'],
+    }).createContext(new Request('https://shop.example/'));
+
+    const inProcess = new Request('https://shop.example/api/products');
+    expect(context.intercepts(inProcess)).toBe(true);
+    const response = await context.fetch(inProcess);
+    expect(JSON.parse(text(response.body))).toEqual({ path: '/api/products' });
+
+    expect(context.intercepts(new Request('https://shop.example/apiary'))).toBe(false);
+    expect(context.intercepts(new Request('https://other.example/api/products'))).toBe(false);
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('should share successful GET responses until the TTL expires', async () => {
+    vi.useFakeTimers();
+    const api = vi.fn(async () => new Response('products'));
+    const fetcher = new ServerHttpFetcher({
+      handlers: { '/api': api },
+      cacheTtl: 1000,
+      allowedHosts: ['localhost'],
+    });
+    const first = fetcher.createContext(new Request('http://localhost/a'));
+    const second = fetcher.createContext(new Request('http://localhost/b'));
+    const request = () => new Request('http://localhost/api/products');
+
+    const [a, b] = await Promise.all([first.fetch(request()), second.fetch(request())]);
+    expect(text(a.body)).toBe('products');
+    expect(b).toBe(a);
+    expect(api).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1001);
+    await first.fetch(request());
+    expect(api).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('should not cache errors, writes or credentialed requests', async () => {
+    const api = vi.fn(async (request: Request) =>
+      new URL(request.url).pathname === '/api/missing'
+        ? new Response('not found', { status: 404 })
+        : new Response('ok')
+    );
+    const fetcher = new ServerHttpFetcher({ handlers: { '/api': api }, cacheTtl: 1000 });
+    const context = fetcher.createContext();
+
+    for (let i = 0; i < 2; i++) {
+      await context.fetch(new Request('http://localhost/api/missing'));
+      await context.fetch(
+        new Request('http://localhost/api/items', { method: 'POST', body: '{}' })
+      );
+      await context.fetch(
+        new Request('http://localhost/api/me', { headers: { Authorization: 'Bearer x' } })
+      );
+    }
+    expect(api).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,234 @@
+import { LRUCache } from './cache';
+
+/**
+ * In-process handler for HTTP calls made while rendering
+ */
+export type ServerHttpHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Options for HttpClient calls made while rendering
+ */
+export interface ServerHttpOptions {
+  /**
+   * Origin relative URLs are resolved against
+   * @default the origin of the incoming request if its host is listed in
+   * `allowedHosts`
+   */
+  origin?: string;
+
+  /**
+   * Hosts (with the port, if not the default one) the origin of incoming
+   * requests may be taken from when no `origin` is set. The host comes from
+   * the client's `Host` header, so relative calls of requests from other
+   * hosts are only answered by `handlers` and never sent over the network.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * In-process handlers by path prefix. Same-origin calls under a prefix
+   * are answered by its handler instead of going over the network:
+   *
+   * ```typescript
+   * handlers: { '/api': (request) => api.fetch(request) }
+   * ```
+   */
+  handlers?: Record<string, ServerHttpHandler>;
+
+  /**
+   * Time in milliseconds successful GET responses are shared across
+   * renders. Requests carrying Authorization or Cookie headers are never
+   * cached.
+   * @default 0 (disabled)
+   */
+  cacheTtl?: number;
+
+  /**
+   * Maximum number of cached responses
+   * @default 100
+   */
+  maxCacheSize?: number;
+}
+
+/**
+ * Buffered response that can be shared between renders
+ */
+export interface ServerHttpResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+}
+
+/**
+ * HTTP context of the page being rendered, provided through the
+ * SERVER_HTTP_CONTEXT token
+ */
+export interface ServerHttpContext {
+  /**
+   * Origin relative URLs are resolved against. Placeholder origin when the
+   * request's host isn't trusted; calls to it are only answered in-process.
+   */
+  origin: string;
+
+  /**
+   * Whether a request is answered in-process or from the shared cache
+   */
+  intercepts(request: Request): boolean;
+
+  /**
+   * Send a request through the in-process handlers and shared cache
+   */
+  fetch(request: Request): Promise<ServerHttpResponse>;
+}
+
+/**
+ * Placeholder origin relative URLs resolve against when the request's host
+ * isn't trusted. The `.invalid` TLD never resolves.
+ */
+const UNTRUSTED_ORIGIN = 'http://untrusted-host.invalid';
+
+/**
+ * Cached response with its expiry
+ */
+interface CachedResponse {
+  response: Promise<ServerHttpResponse>;
+  expiresAt: number;
+}
+
+/**
+ * ServerHttpFetcher - Answers render-time HTTP calls
+ *
+ * Routes same-origin calls to in-process handlers and shares GET responses
+ * between concurrent renders for `cacheTtl` milliseconds. Concurrent calls
+ * for the same URL share one request.
+ */
+export class ServerHttpFetcher {
+  private readonly origin?: string;
+  private readonly allowedHosts: Set<string>;
+  private readonly handlers: [string, ServerHttpHandler][];
+  private readonly cacheTtl: number;
+  private readonly cache: LRUCache<CachedResponse>;
+
+  constructor(options: ServerHttpOptions = {}) {
+    this.origin = options.origin;
+    this.allowedHosts = new Set((options.allowedHosts ?? []).map((host) => host.toLowerCase()));
+    // Longest prefix first
+    this.handlers = Object.entries(options.handlers ?? {}).sort(
+      ([a], [b]) => b.length - a.length
+    );
+    this.cacheTtl = options.cacheTtl ?? 0;
+    this.cache = new LRUCache(options.maxCacheSize ?? 100);
+  }
+
+  /**
+   * Create the HTTP context for a render of the given request
+   */
+  createContext(request?: Request): ServerHttpContext {
+    const origin = this.origin ?? this.getRequestOrigin(request);
+    return {
+      origin,
+      // Calls to an untrusted origin are rejected by `send`
+      intercepts: (req) =>
+        this.findHandler(req.url, origin) !== undefined ||
+        this.isCacheable(req) ||
+        new URL(req.url).origin === UNTRUSTED_ORIGIN,
+      fetch: (req) => this.fetch(req, origin),
+    };
+  }
+
+  /**
+   * Send a request, serving GET requests from the shared cache
+   */
+  fetch(request: Request, origin: string): Promise<ServerHttpResponse> {
+    if (!this.isCacheable(request)) {
+      return this.send(request, origin);
+    }
+
+    const cached = this.cache.get(request.url);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.response;
+    }
+
+    const entry: CachedResponse = {
+      response: this.send(request, origin),
+      expiresAt: Date.now() + this.cacheTtl,
+    };
+    this.cache.set(request.url, entry);
+
+    // Only successful responses are shared
+    const evict = () => {
+      if (this.cache.get(request.url) === entry) {
+        this.cache.delete(request.url);
+      }
+    };
+    entry.response.then((response) => {
+      if (response.status < 200 || response.status >= 300) evict();
+    }, evict);
+
+    return entry.response;
+  }
+
+  /**
+   * Clear the shared response cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get the origin of an incoming request if its host is allowed
+   */
+  private getRequestOrigin(request?: Request): string {
+    if (!request) {
+      return 'http://localhost';
+    }
+    const url = new URL(request.url);
+    return this.allowedHosts.has(url.host.toLowerCase()) ? url.origin : UNTRUSTED_ORIGIN;
+  }
+
+  /**
+   * Whether a request may be answered from the shared cache
+   */
+  private isCacheable(request: Request): boolean {
+    return (
+      this.cacheTtl > 0 &&
+      request.method === 'GET' &&
+      !request.headers.has('Authorization') &&
+      !request.headers.has('Cookie')
+    );
+  }
+
+  /**
+   * Find the in-process handler for a same-origin URL
+   */
+  private findHandler(url: string, origin: string): ServerHttpHandler | undefined {
+    const { origin: requestOrigin, pathname } = new URL(url);
+    if (requestOrigin !== origin) return undefined;
+
+    return this.handlers.find(
+      ([prefix]) => pathname === prefix || pathname.startsWith(prefix.replace(/\/$/, '') + '/')
+    )?.[1];
+  }
+
+  /**
+   * Send a request in-process or over the network and buffer the response
+   */
+  private async send(request: Request, origin: string): Promise<ServerHttpResponse> {
+    const handler = this.findHandler(request.url, origin);
+    if (!handler && new URL(request.url).origin === UNTRUSTED_ORIGIN) {
+      throw new Error(
+        `Cannot send ${new URL(request.url).pathname} over the network: the request's host is ` +
+          'not trusted. Set http.origin or list the host in http.allowedHosts.'
+      );
+    }
+    const response = handler ? await handler(request) : await fetch(request);
+    return {
+      url: response.url || request.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers],
+      body: await response.arrayBuffer(),
+    };
+  }
+}
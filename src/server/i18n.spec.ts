@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  LocaleEngines,
+  createLocaleEngines,
+  createLocalizedRequestHandler,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from './i18n';
+import { BunStaticFileHandler } from './static';
+import { MetricsRegistry } from './metrics';
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+
+vi.mock('@angular/platform-server', () => ({
+  renderApplication: vi.fn(),
+}));
+
+vi.mock('@angular/common', () => ({
+  PlatformLocation: class PlatformLocation {},
+}));
+
+const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+/**
+ * Create an engine stub rendering its locale into the page
+ */
+function createEngine(locale: string): BunAngularEngine {
+  return {
+    locale,
+    logger,
+    metrics: new MetricsRegistry(logger),
+    tracer: null,
+    getVaryHeaders: () => [],
+    render: vi.fn(async ({ url }: { url: string }) => ({
+      html: `${locale}:${url}`,
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      fromCache: false,
+      cacheStatus: 'MISS',
+      renderTime: 1,
+    })),
+  } as unknown as BunAngularEngine;
+}
+
+function createEngines(): LocaleEngines {
+  return new LocaleEngines(
+    { 'en-US': createEngine('en-US'), de: createEngine('de'), fr: createEngine('fr') },
+    'en-US'
+  );
+}
+
+describe('parseAcceptLanguage', () => {
+  it('should order tags by quality and drop refused ones', () => {
+    expect(parseAcceptLanguage('fr;q=0.5, de-AT, en;q=0.8, es;q=0')).toEqual(['de-AT', 'en', 'fr']);
+    expect(parseAcceptLanguage(null)).toEqual([]);
+  });
+});
+
+describe('negotiateLocale', () => {
+  const locales = ['en-US', 'de', 'fr'];
+
+  it('should match exactly, then by language', () => {
+    expect(negotiateLocale(['FR'], locales)).toBe('fr');
+    expect(negotiateLocale(['de-AT'], locales)).toBe('de');
+    expect(negotiateLocale(['en-GB'], locales)).toBe('en-US');
+    expect(negotiateLocale(['es', 'fr-CA'], locales)).toBe('fr');
+    expect(negotiateLocale(['es', '*'], locales)).toBeNull();
+  });
+});
+
+describe('LocaleEngines', () => {
+  it('should dispatch renders by locale prefix', async () => {
+    const engines = createEngines();
+
+    expect((await engines.render({ url: '/de/products' })).html).toBe('de:/de/products');
+    expect((await engines.render({ url: '/EN-us/' })).html).toBe('en-US:/EN-us/');
+    expect((await engines.render({ url: '/about' })).html).toBe('en-US:/about');
+  });
+
+  it('should reject an unknown default locale', () => {
+    expect(() => new LocaleEngines({ de: createEngine('de') }, 'fr')).toThrow(/fr/);
+  });
+});
+
+describe('createLocaleEngines', () => {
+  it('should create an engine per locale folder sharing one registry', () => {
+    const bootstrap = vi.fn(() => async () => ({}));
+    const engines = createLocaleEngines({
+      locales: ['en-US', 'de'],
+      browserDistFolder: '/app/browser',
+      bootstrap,
+      logger,
+    });
+
+    expect(engines.getBrowserDistFolders()).toEqual({
+      'en-US': join('/app/browser', 'en-US'),
+      de: join('/app/browser', 'de'),
+    });
+    expect(bootstrap.mock.calls).toEqual([['en-US'], ['de']]);
+    expect(engines.get('de')?.locale).toBe('de');
+    expect(engines.get('de')?.metrics).toBe(engines.defaultEngine.metrics);
+  });
+});
+
+describe('createLocalizedRequestHandler', () => {
+  it('should render prefixed paths with their locale', async () => {
+    const engines = createEngines();
+    const handler = createLocalizedRequestHandler({ engines });
+
+    const response = await handler(new Request('http://localhost/fr/cart'));
+    expect(await response.text()).toBe('fr:/fr/cart');
+  });
+
+  it('should redirect to the locale from the cookie, then Accept-Language', async () => {
+    const handler = createLocalizedRequestHandler({ engines: createEngines() });
+    const redirect = async (headers: Record<string, string>) => {
+      const response = await handler(new Request('http://localhost/products?page=2', { headers }));
+      return [response.status, response.headers.get('Location')];
+    };
+
+    expect(await redirect({ Cookie: 'locale=fr', 'Accept-Language': 'de' })).toEqual([
+      302,
+      '/fr/products?page=2',
+    ]);
+    expect(await redirect({ Cookie: 'locale=es', 'Accept-Language': 'de-CH, en;q=0.5' })).toEqual([
+      302,
+      '/de/products?page=2',
+    ]);
+    expect(await redirect({})).toEqual([302, '/en-US/products?page=2']);
+  });
+
+  it('should ignore malformed locale cookies', async () => {
+    const handler = createLocalizedRequestHandler({ engines: createEngines() });
+
+    const headers = { Cookie: 'locale=%E0%A4%A', 'Accept-Language': 'de' };
+    const response = await handler(new Request('http://localhost/', { headers }));
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/de/');
+  });
+
+  it('should match route rules relative to the locale prefix', async () => {
+    const engines = createEngines();
+    const handler = createLocalizedRequestHandler({
+      engines,
+      routes: [{ path: '/account/**', renderMode: 'server', headers: { 'X-Route': 'account' } }],
+    });
+
+    const response = await handler(new Request('http://localhost/de/account/orders'));
+    expect(response.headers.get('X-Route')).toBe('account');
+  });
+});
+
+describe('BunStaticFileHandler locales', () => {
+  it('should serve localized paths from the locale roots', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ngx-bun-i18n-'));
+    try {
+      await mkdir(join(dir, 'en-US'));
+      await writeFile(join(dir, 'en-US', 'main.js'), '');
+      await writeFile(join(dir, 'robots.txt'), '');
+      const handler = new BunStaticFileHandler({
+        root: dir,
+        locales: { en: join(dir, 'en-US') },
+      });
+
+      expect(handler.lookup('/en/main.js').filePath).toBe(join(dir, 'en-US', 'main.js'));
+      expect(handler.lookup('/robots.txt').exists).toBe(true);
+      expect(handler.lookup('/en/../robots.txt').exists).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
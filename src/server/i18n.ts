@@ -0,0 +1,349 @@
+import { join } from 'node:path';
+import { BunAngularEngine } from './engine';
+import {
+  createRequestHandler,
+  type ClosableRequestHandler,
+  type RequestHandlerOptions,
+  type RequestIpSource,
+} from './handler';
+import { parseCookies } from './cache-key';
+import { MetricsRegistry } from './metrics';
+import { createLogger } from './logger';
+import type {
+  BunAngularEngineOptions,
+  InvalidateOptions,
+  RedirectStatus,
+  RenderOptions,
+  RenderResult,
+} from './types';
+
+/**
+ * Parse an Accept-Language header into language tags, most preferred first
+ *
+ * Tags with `q=0` are dropped.
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+  const entries = header.split(',').map((part, index) => {
+    const [tag, ...params] = part.trim().split(';');
+    const q = params.find((param) => param.trim().startsWith('q='));
+    return { tag: tag.trim(), q: q ? Number(q.trim().slice(2)) : 1, index };
+  });
+  return entries
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Pick the locale best matching a list of language tags
+ *
+ * A tag matches a locale exactly (`de-AT`) or by language (`de-AT` matches
+ * `de` and `de-DE`). Returns null if no tag matches.
+ */
+export function negotiateLocale(accepted: string[], locales: string[]): string | null {
+  const normalized = locales.map((locale) => locale.toLowerCase());
+  for (const tag of accepted) {
+    const lower = tag.toLowerCase();
+    const exact = normalized.indexOf(lower);
+    if (exact !== -1) return locales[exact];
+
+    const language = lower.split('-')[0];
+    const partial = normalized.findIndex((locale) => locale.split('-')[0] === language);
+    if (partial !== -1) return locales[partial];
+  }
+  return null;
+}
+
+/**
+ * LocaleEngines - The engines of an application's localized builds
+ *
+ * Each locale is served under its URL prefix (`/de/...`), matching the
+ * base href and output folder of Angular's `localize` builds. Renders
+ * are dispatched to the engine of the URL's locale.
+ */
+export class LocaleEngines {
+  /**
+   * Locales in the order they were given
+   */
+  readonly locales: string[];
+
+  /**
+   * Locale for visitors no other locale matches
+   */
+  readonly defaultLocale: string;
+
+  private readonly engines = new Map<string, BunAngularEngine>();
+
+  constructor(engines: Record<string, BunAngularEngine>, defaultLocale?: string) {
+    this.locales = Object.keys(engines);
+    if (this.locales.length === 0) {
+      throw new Error('At least one locale is required');
+    }
+    for (const [locale, engine] of Object.entries(engines)) {
+      this.engines.set(locale.toLowerCase(), engine);
+    }
+    this.defaultLocale = defaultLocale ?? this.locales[0];
+    if (!this.engines.has(this.defaultLocale.toLowerCase())) {
+      throw new Error(`Default locale ${this.defaultLocale} has no engine`);
+    }
+  }
+
+  /**
+   * Get the engine of a locale (case-insensitive)
+   */
+  get(locale: string): BunAngularEngine | undefined {
+    return this.engines.get(locale.toLowerCase());
+  }
+
+  /**
+   * The engine of the default locale
+   */
+  get defaultEngine(): BunAngularEngine {
+    return this.get(this.defaultLocale)!;
+  }
+
+  /**
+   * Get the locale named by the first segment of a pathname, or null
+   */
+  fromPath(pathname: string): string | null {
+    const segment = pathname.split('/')[1] ?? '';
+    return this.canonical(segment);
+  }
+
+  /**
+   * Get the configured spelling of a locale, or null if it isn't served
+   */
+  canonical(locale: string): string | null {
+    const lower = locale.toLowerCase();
+    return this.locales.find((candidate) => candidate.toLowerCase() === lower) ?? null;
+  }
+
+  /**
+   * Get the browser output folder of every locale, keyed by locale
+   */
+  getBrowserDistFolders(): Record<string, string> {
+    return Object.fromEntries(
+      this.locales.map((locale) => [locale, this.get(locale)!.getBrowserDistFolder()])
+    );
+  }
+
+  /**
+   * Render a URL with the engine of its locale prefix, or the default
+   * locale's engine for unprefixed URLs
+   */
+  render(options: RenderOptions): Promise<RenderResult> {
+    const { pathname } = new URL(options.url, 'http://localhost');
+    const locale = this.fromPath(pathname) ?? this.defaultLocale;
+    return this.get(locale)!.render(options);
+  }
+
+  /**
+   * Whether every locale's template is loaded
+   */
+  hasTemplate(): boolean {
+    return this.all().every((engine) => engine.hasTemplate());
+  }
+
+  /**
+   * Clear the render cache of every locale
+   */
+  async clearCache(): Promise<void> {
+    await Promise.all(this.all().map((engine) => engine.clearCache()));
+  }
+
+  /**
+   * Remove matching cached pages of every locale
+   */
+  async invalidate(criteria: InvalidateOptions): Promise<number> {
+    let removed = 0;
+    for (const engine of this.all()) {
+      removed += await engine.invalidate(criteria);
+    }
+    return removed;
+  }
+
+  /**
+   * Reload the template of every locale
+   */
+  reloadTemplate(): void {
+    for (const engine of this.all()) {
+      engine.reloadTemplate();
+    }
+  }
+
+  /**
+   * Terminate the render workers of every locale
+   */
+  close(): void {
+    for (const engine of this.all()) {
+      engine.close();
+    }
+  }
+
+  private all(): BunAngularEngine[] {
+    return [...this.engines.values()];
+  }
+}
+
+/**
+ * Options for creating the engines of localized builds
+ */
+export interface LocaleEnginesOptions
+  extends Omit<
+    BunAngularEngineOptions,
+    'bootstrap' | 'browserDistFolder' | 'serverDistFolder' | 'indexHtml' | 'locale'
+  > {
+  /**
+   * Locales to serve, named like their output folders and URL prefixes
+   */
+  locales: string[];
+
+  /**
+   * Locale for visitors no other locale matches
+   * @default the first locale
+   */
+  defaultLocale?: string;
+
+  /**
+   * Browser output folder containing a folder per locale
+   */
+  browserDistFolder: string;
+
+  /**
+   * Server output folder containing a folder per locale
+   */
+  serverDistFolder?: string;
+
+  /**
+   * Get the bootstrap of a locale's server bundle
+   */
+  bootstrap: (locale: string) => BunAngularEngineOptions['bootstrap'];
+}
+
+/**
+ * Create an engine per locale of a `localize` build
+ *
+ * The engines share the metrics registry and logger, and otherwise use the
+ * same options.
+ */
+export function createLocaleEngines(options: LocaleEnginesOptions): LocaleEngines {
+  const { locales, defaultLocale, browserDistFolder, serverDistFolder, bootstrap, ...shared } =
+    options;
+  const logger = shared.logger ?? createLogger({ name: 'BunAngularEngine' });
+  const metrics = shared.metrics ?? new MetricsRegistry(logger);
+
+  const engines: Record<string, BunAngularEngine> = {};
+  for (const locale of locales) {
+    engines[locale] = new BunAngularEngine({
+      ...shared,
+      logger,
+      metrics,
+      locale,
+      bootstrap: bootstrap(locale),
+      browserDistFolder: join(browserDistFolder, locale),
+      serverDistFolder: serverDistFolder ? join(serverDistFolder, locale) : undefined,
+    });
+  }
+  return new LocaleEngines(engines, defaultLocale);
+}
+
+/**
+ * How requests are routed to locales
+ */
+export interface LocaleRoutingOptions {
+  /**
+   * The engines of the served locales
+   */
+  engines: LocaleEngines;
+
+  /**
+   * Cookie holding the visitor's chosen locale, or `false` to ignore
+   * cookies
+   * @default 'locale'
+   */
+  cookie?: string | false;
+
+  /**
+   * Status of redirects from unprefixed URLs to the visitor's locale
+   * @default 302
+   */
+  redirectStatus?: RedirectStatus;
+}
+
+/**
+ * Options for creating a localized request handler
+ */
+export interface LocalizedRequestHandlerOptions<TContext = unknown>
+  extends Omit<RequestHandlerOptions<TContext>, 'engine' | 'baseHref'>,
+    LocaleRoutingOptions {}
+
+/**
+ * Create a request handler serving localized builds
+ *
+ * Requests with a locale prefix are handled by that locale's engine. Other
+ * requests are redirected to the same path under the locale from the
+ * locale cookie, the Accept-Language header or the default locale.
+ */
+export function createLocalizedRequestHandler<TContext = unknown>(
+  options: LocalizedRequestHandlerOptions<TContext>
+): ClosableRequestHandler {
+  const { engines, cookie = 'locale', redirectStatus = 302, ...handlerOptions } = options;
+
+  const handlers = new Map<string, ClosableRequestHandler>();
+  for (const locale of engines.locales) {
+    handlers.set(
+      locale,
+      createRequestHandler({
+        ...handlerOptions,
+        engine: engines.get(locale)!,
+        baseHref: `/${locale}/`,
+      })
+    );
+  }
+
+  /**
+   * Choose the locale for a request without a locale prefix
+   */
+  function resolveLocale(request: Request): string {
+    if (cookie) {
+      const value = parseCookies(request.headers.get('Cookie'))[cookie];
+      let locale: string | null = null;
+      try {
+        locale = value ? engines.canonical(decodeURIComponent(value)) : null;
+      } catch {
+        // Treat malformed cookies as missing
+      }
+      if (locale) return locale;
+    }
+    const accepted = parseAcceptLanguage(request.headers.get('Accept-Language'));
+    return negotiateLocale(accepted, engines.locales) ?? engines.defaultLocale;
+  }
+
+  async function localizedHandler(
+    request: Request,
+    server?: RequestIpSource
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const locale = engines.fromPath(url.pathname);
+    if (locale) {
+      return handlers.get(locale)!(request, server);
+    }
+
+    const location = `/${resolveLocale(request)}${url.pathname}${url.search}`;
+    return new Response(null, {
+      status: redirectStatus,
+      headers: {
+        Location: location,
+        Vary: cookie ? 'Accept-Language, Cookie' : 'Accept-Language',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+
+  return Object.assign(localizedHandler, {
+    close: async () => {
+      await Promise.all([...handlers.values()].map((handler) => handler.close()));
+    },
+  });
+}
@@ -4,16 +4,139 @@
 
 export { BunAngularEngine, createBunAngularEngine } from './engine';
 export { createBunServer } from './server';
-export type { BunServerOptions } from './server';
+export type { BunServerOptions, BunAngularServer } from './server';
+export { createPurgeHandler } from './purge';
+export type { PurgeEndpointOptions } from './purge';
+export {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  createMetricsHandler,
+} from './metrics';
+export type { MetricLabels, MetricsEndpointOptions } from './metrics';
+export { createLogger, formatLogRecord } from './logger';
+export type { LogFields, LogFormat, LogLevel, LogRecord, Logger, LoggerOptions } from './logger';
+export { RotatingFileWriter, createAccessLogger, formatAccessLog } from './access-log';
+export type {
+  AccessLogEntry,
+  AccessLogFormat,
+  AccessLogger,
+  AccessLogOptions,
+  AccessLogType,
+} from './access-log';
+export {
+  OtlpHttpExporter,
+  Span,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+} from './tracing';
+export type {
+  FinishedSpan,
+  OtlpHttpExporterOptions,
+  SpanAttributes,
+  SpanContext,
+  SpanExporter,
+  SpanKind,
+  StartSpanOptions,
+  TracingOptions,
+} from './tracing';
+export { applySecurityHeaders, getSecurityHeaders } from './security-headers';
+export type { SecurityHeadersOptions } from './security-headers';
+export { ServerHealth, createHealthHandler } from './health';
+export type { HealthCheckOptions, ReadinessStatus, ServerState } from './health';
+export { CacheWarmer, parseSitemap } from './warmup';
+export type { WarmupContext, WarmupOptions, WarmupResult } from './warmup';
+export {
+  LocaleEngines,
+  createLocaleEngines,
+  createLocalizedRequestHandler,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from './i18n';
+export type {
+  LocaleEnginesOptions,
+  LocaleRoutingOptions,
+  LocalizedRequestHandlerOptions,
+} from './i18n';
+export { CACHE_TAGS, SERVER_HTTP_CONTEXT, SERVER_RESPONSE, TRACE_PARENT } from './tokens';
+export { ServerHttpFetcher } from './http';
+export type {
+  ServerHttpContext,
+  ServerHttpHandler,
+  ServerHttpOptions,
+  ServerHttpResponse,
+} from './http';
+export { serverHttpInterceptor } from './http-interceptor';
+export { CriticalCssInliner, extractCriticalCss } from './critical-css';
+export {
+  applyTransforms,
+  injectSnippet,
+  minifyHtml,
+  rewriteAssetUrls,
+} from './transforms';
+export type { HtmlTransform, HtmlTransformContext } from './transforms';
+export { DEFAULT_CSP_POLICY, generateNonce, stampNonce } from './csp';
+export type { CspOptions } from './csp';
+export { escapeHtml, renderDevErrorPage } from './error-page';
+export type { ErrorPageDetails, ErrorPageRenderer } from './error-page';
+export { SourceMapConsumer, StackTraceMapper, decodeVlq } from './source-map';
+export type { OriginalPosition, SourceMap } from './source-map';
+export { RenderQueueFullError, RenderTimeoutError } from './errors';
+export { RenderLimiter } from './limiter';
+export type { RenderLimiterOptions, RenderQueueStats } from './limiter';
+export { RenderWorkerPool } from './worker-pool';
+export type {
+  RenderWorkerPoolOptions,
+  RenderWorkerPoolStats,
+  RenderWorkerStats,
+} from './worker-pool';
+export { startRenderWorker } from './render-worker';
+export type { RenderWorkerOptions } from './render-worker';
+export { CSP_NONCE, REQUEST, REQUEST_CONTEXT, RESPONSE_INIT } from '@angular/core';
+export { ServerResponseInit, serializeCookie } from './response';
+export type { CookieOptions } from './response';
+export { createRouteMatcher, getRouteRenderOptions } from './routes';
+export type { RouteMatcher } from './routes';
 export { createRequestHandler } from './handler';
-export type { RequestHandlerOptions } from './handler';
+export type {
+  BunRequestHandler,
+  ClosableRequestHandler,
+  RequestHandlerOptions,
+  RequestIpSource,
+} from './handler';
 export {
   BunStaticFileHandler,
   createStaticFileHandler,
 } from './static';
 export type { StaticFileOptions } from './static';
+export { LRUCache, MemoryCacheStore } from './cache';
+export {
+  createCacheKeyFunction,
+  getDeviceClass,
+  DEFAULT_AUTH_COOKIES,
+  TRACKING_QUERY_PARAMS,
+} from './cache-key';
+export type {
+  CacheKeyFunction,
+  CacheKeyOptions,
+  CacheVaryOptions,
+  DeviceClass,
+} from './cache-key';
+export { SqliteCacheStore, createSqliteCacheStore } from './cache-sqlite';
+export type { SqliteCacheStoreOptions } from './cache-sqlite';
+export { RedisCacheStore, createRedisCacheStore } from './cache-redis';
+export type { RedisCacheStoreOptions } from './cache-redis';
 export type {
   BunAngularEngineOptions,
+  CacheEntry,
+  CacheStatus,
+  CacheStore,
+  InvalidateOptions,
+  RedirectStatus,
   RenderOptions,
   RenderResult,
+  RouteConfig,
 } from './types';
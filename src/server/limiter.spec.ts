@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { RenderLimiter } from './limiter';
+import { RenderQueueFullError } from './errors';
+
+/**
+ * Create a task that resolves when `finish` is called
+ */
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { task: () => done, finish };
+}
+
+describe('RenderLimiter', () => {
+  it('should run at most maxConcurrent tasks at once', async () => {
+    const limiter = new RenderLimiter({ maxConcurrent: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const runs = tasks.map(({ task }) => limiter.run(task));
+
+    expect(limiter.getStats()).toMatchObject({ active: 2, queued: 1 });
+
+    tasks[0].finish();
+    await runs[0];
+    expect(limiter.getStats()).toMatchObject({ active: 2, queued: 0 });
+
+    tasks[1].finish();
+    tasks[2].finish();
+    await Promise.all(runs);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should start queued tasks in order', async () => {
+    const limiter = new RenderLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+    const first = deferred();
+
+    const runs = [
+      limiter.run(first.task),
+      limiter.run(async () => order.push(1)),
+      limiter.run(async () => order.push(2)),
+    ];
+    first.finish();
+    await Promise.all(runs);
+
+    expect(order).toEqual([1, 2]);
+    expect(limiter.getStats().averageWaitTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should reject tasks once the queue is full', async () => {
+    const limiter = new RenderLimiter({ maxConcurrent: 1, maxQueueLength: 1 });
+    const running = deferred();
+
+    const runs = [limiter.run(running.task), limiter.run(async () => undefined)];
+    expect(limiter.hasCapacity()).toBe(false);
+    await expect(limiter.run(async () => undefined)).rejects.toBeInstanceOf(RenderQueueFullError);
+    expect(limiter.getStats().rejected).toBe(1);
+
+    running.finish();
+    await Promise.all(runs);
+    expect(limiter.hasCapacity()).toBe(true);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new RenderLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(limiter.getStats().active).toBe(0);
+  });
+});
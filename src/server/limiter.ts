@@ -0,0 +1,117 @@
+import { RenderQueueFullError } from './errors';
+
+/**
+ * Options for limiting concurrent renders
+ */
+export interface RenderLimiterOptions {
+  /**
+   * Maximum number of renders running at once
+   */
+  maxConcurrent: number;
+
+  /**
+   * Maximum number of renders waiting for a slot
+   * @default unbounded
+   */
+  maxQueueLength?: number;
+}
+
+/**
+ * Render queue statistics
+ */
+export interface RenderQueueStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueueLength: number;
+  /**
+   * Renders rejected because the queue was full
+   */
+  rejected: number;
+  /**
+   * Average time in milliseconds queued renders waited for a slot
+   */
+  averageWaitTime: number;
+  /**
+   * Longest time in milliseconds a queued render waited for a slot
+   */
+  maxWaitTime: number;
+}
+
+/**
+ * RenderLimiter - Bounds how many renders run at once
+ *
+ * Renders beyond `maxConcurrent` wait in a FIFO queue. Once the queue holds
+ * `maxQueueLength` renders, further renders are rejected with a
+ * RenderQueueFullError.
+ */
+export class RenderLimiter {
+  private readonly maxConcurrent: number;
+  private readonly maxQueueLength: number;
+  private readonly queue: (() => void)[] = [];
+  private active = 0;
+  private rejected = 0;
+  private waited = 0;
+  private totalWaitTime = 0;
+  private maxWaitTime = 0;
+
+  constructor(options: RenderLimiterOptions) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent);
+    this.maxQueueLength = options.maxQueueLength ?? Infinity;
+  }
+
+  /**
+   * Whether a render started now would run or be queued
+   */
+  hasCapacity(): boolean {
+    return this.active < this.maxConcurrent || this.queue.length < this.maxQueueLength;
+  }
+
+  /**
+   * Run a render once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      if (this.queue.length >= this.maxQueueLength) {
+        this.rejected++;
+        throw new RenderQueueFullError(this.maxQueueLength);
+      }
+
+      // The finishing render hands its slot over without releasing it
+      const enqueuedAt = performance.now();
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+      const waitTime = performance.now() - enqueuedAt;
+      this.waited++;
+      this.totalWaitTime += waitTime;
+      this.maxWaitTime = Math.max(this.maxWaitTime, waitTime);
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Get render queue statistics
+   */
+  getStats(): RenderQueueStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.maxConcurrent,
+      maxQueueLength: this.maxQueueLength,
+      rejected: this.rejected,
+      averageWaitTime: this.waited > 0 ? this.totalWaitTime / this.waited : 0,
+      maxWaitTime: this.maxWaitTime,
+    };
+  }
+}
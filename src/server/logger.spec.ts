@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createLogger, formatLogRecord, type LogLevel } from './logger';
+
+/**
+ * Create a logger collecting written lines
+ */
+function createTestLogger(options: Parameters<typeof createLogger>[0] = {}) {
+  const lines: { line: string; level: LogLevel }[] = [];
+  const logger = createLogger({ ...options, write: (line, level) => lines.push({ line, level }) });
+  return { logger, lines };
+}
+
+describe('createLogger', () => {
+  it('should skip records below the level', () => {
+    const { logger, lines } = createTestLogger({ level: 'warn' });
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map(({ level }) => level)).toEqual(['warn', 'error']);
+  });
+
+  it('should log nothing when silent', () => {
+    const { logger, lines } = createTestLogger({ level: 'silent' });
+    logger.error('error');
+    expect(lines).toHaveLength(0);
+  });
+
+  it('should write JSON lines with fields and serialized errors', () => {
+    const { logger, lines } = createTestLogger({ format: 'json', name: 'engine' });
+    logger.error('Render failed', { url: '/cart', error: new Error('boom') });
+
+    const record = JSON.parse(lines[0].line);
+    expect(record).toMatchObject({
+      level: 'error',
+      name: 'engine',
+      msg: 'Render failed',
+      url: '/cart',
+      error: { name: 'Error', message: 'boom' },
+    });
+    expect(record.error.stack).toContain('boom');
+    expect(Date.parse(record.time)).not.toBeNaN();
+  });
+
+  it('should accept a custom format', () => {
+    const { logger, lines } = createTestLogger({
+      format: (record) => `${record.level}:${record.message}`,
+    });
+    logger.info('hello');
+    expect(lines[0].line).toBe('info:hello');
+  });
+});
+
+describe('formatLogRecord', () => {
+  it('should format pretty lines with fields and error stacks', () => {
+    const error = new Error('boom');
+    const line = formatLogRecord(
+      {
+        time: new Date('2026-01-02T03:04:05.000Z'),
+        level: 'warn',
+        name: 'BunAngularEngine',
+        message: 'Render queue full',
+        fields: { url: '/a b', status: 503, skipped: undefined, error },
+      },
+      'pretty'
+    );
+
+    const [first, ...stack] = line.split('\n');
+    expect(first).toBe(
+      '2026-01-02T03:04:05.000Z WARN  [BunAngularEngine] Render queue full url="/a b" status=503 error="boom"'
+    );
+    expect(stack.join('\n')).toBe(error.stack);
+  });
+});
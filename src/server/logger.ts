@@ -0,0 +1,166 @@
+/**
+ * Severity of a log record
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log record
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used by the engine, request handler, server and prerenderer
+ *
+ * Any object with these methods can be passed as `logger`, so existing
+ * logging libraries can be plugged in with a thin adapter.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Log record passed to formatters
+ */
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  name?: string;
+  message: string;
+  fields: LogFields;
+}
+
+/**
+ * Built-in log formats
+ *
+ * - `json`: one JSON object per line
+ * - `pretty`: human-readable lines, with error stacks
+ */
+export type LogFormat = 'json' | 'pretty';
+
+/**
+ * Options for the built-in logger
+ */
+export interface LoggerOptions {
+  /**
+   * Minimum level to log, or `silent` to log nothing
+   * @default 'info'
+   */
+  level?: LogLevel | 'silent';
+
+  /**
+   * Output format, or a function formatting a record as a line
+   * @default 'pretty'
+   */
+  format?: LogFormat | ((record: LogRecord) => string);
+
+  /**
+   * Name shown with every record
+   */
+  name?: string;
+
+  /**
+   * Write a formatted line
+   * @default the console method matching the level
+   */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const LEVEL_SEVERITY: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Serialize errors, which JSON.stringify turns into empty objects
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Format a field value for pretty output
+ */
+function formatField(value: unknown): string {
+  if (value instanceof Error) return JSON.stringify(value.message);
+  if (typeof value === 'string') return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  return JSON.stringify(value, jsonReplacer) ?? String(value);
+}
+
+/**
+ * Format a log record as a single line (pretty output may add stack lines)
+ */
+export function formatLogRecord(record: LogRecord, format: LogFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        time: record.time.toISOString(),
+        level: record.level,
+        ...(record.name ? { name: record.name } : {}),
+        msg: record.message,
+        ...record.fields,
+      },
+      jsonReplacer
+    );
+  }
+
+  let line = `${record.time.toISOString()} ${record.level.toUpperCase().padEnd(5)}`;
+  if (record.name) line += ` [${record.name}]`;
+  line += ` ${record.message}`;
+
+  const stacks: string[] = [];
+  for (const [key, value] of Object.entries(record.fields)) {
+    if (value === undefined) continue;
+    line += ` ${key}=${formatField(value)}`;
+    if (value instanceof Error && value.stack) stacks.push(value.stack);
+  }
+  return [line, ...stacks].join('\n');
+}
+
+/**
+ * Write a line to the console method matching its level
+ */
+function writeToConsole(line: string, level: LogLevel): void {
+  switch (level) {
+    case 'error':
+      console.error(line);
+      break;
+    case 'warn':
+      console.warn(line);
+      break;
+    case 'debug':
+      console.debug(line);
+      break;
+    default:
+      console.log(line);
+  }
+}
+
+/**
+ * Create a logger writing formatted records to the console
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const minimum = LEVEL_SEVERITY[options.level ?? 'info'];
+  const { name, format = 'pretty', write = writeToConsole } = options;
+
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVEL_SEVERITY[level] < minimum) return;
+    const record: LogRecord = { time: new Date(), level, name, message, fields };
+    write(typeof format === 'function' ? format(record) : formatLogRecord(record, format), level);
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+}
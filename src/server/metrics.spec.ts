@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry, createMetricsHandler } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('should serialize counters and gauges with labels', async () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests');
+    const active = registry.gauge('active', 'Active requests');
+
+    requests.inc({ status: 200 });
+    requests.inc({ status: 200 }, 2);
+    requests.inc({ path: 'a"b\\c' });
+    active.inc();
+    active.inc();
+    active.dec();
+
+    expect(await registry.serialize()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{status="200"} 3',
+        'requests_total{path="a\\"b\\\\c"} 1',
+        '# HELP active Active requests',
+        '# TYPE active gauge',
+        'active 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should serialize histograms with cumulative buckets', async () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram('duration_seconds', 'Duration', [0.1, 1]);
+
+    duration.observe(0.05, { route: '/' });
+    duration.observe(0.5, { route: '/' });
+    duration.observe(3, { route: '/' });
+
+    const output = await registry.serialize();
+    expect(output).toContain('duration_seconds_bucket{route="/",le="0.1"} 1');
+    expect(output).toContain('duration_seconds_bucket{route="/",le="1"} 2');
+    expect(output).toContain('duration_seconds_bucket{route="/",le="+Inf"} 3');
+    expect(output).toContain('duration_seconds_sum{route="/"} 3.55');
+    expect(output).toContain('duration_seconds_count{route="/"} 3');
+  });
+
+  it('should return existing metrics and reject type conflicts', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('hits_total', 'Hits');
+
+    expect(registry.counter('hits_total', 'Hits')).toBe(counter);
+    expect(() => registry.gauge('hits_total', 'Hits')).toThrow('already registered as a counter');
+  });
+
+  it('should run collect hooks before serializing', async () => {
+    const registry = new MetricsRegistry();
+    const size = registry.gauge('size', 'Size');
+    let value = 1;
+    registry.collect(async () => size.set(value++));
+
+    expect(await registry.serialize()).toContain('size 1');
+    expect(await registry.serialize()).toContain('size 2');
+  });
+});
+
+describe('createMetricsHandler', () => {
+  it('should serve the Prometheus text format', async () => {
+    const registry = new MetricsRegistry();
+    registry.counter('hits_total', 'Hits').inc();
+    const handler = createMetricsHandler(registry);
+
+    const response = await handler(new Request('http://localhost/metrics'));
+    expect(response.headers.get('Content-Type')).toContain('text/plain; version=0.0.4');
+    expect(await response.text()).toContain('hits_total 1');
+
+    const post = await handler(new Request('http://localhost/metrics', { method: 'POST' }));
+    expect(post.status).toBe(405);
+  });
+});
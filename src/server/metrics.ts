@@ -0,0 +1,330 @@
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Label values of a metric sample
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Default histogram buckets in seconds
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Serialize labels as a Prometheus label set
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Format a sample value
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Key identifying a label set, independent of label order
+ */
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Base class of metrics: a value per label set
+ */
+abstract class Metric<T> {
+  protected readonly values = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  /**
+   * Serialize the samples of the metric
+   */
+  abstract samples(): string[];
+
+  /**
+   * Remove all samples
+   */
+  reset(): void {
+    this.values.clear();
+  }
+
+  /**
+   * Get the value of a label set, creating it if needed
+   */
+  protected entry(labels: MetricLabels, initial: () => T): { labels: MetricLabels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Counter - A value that only goes up
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  /**
+   * Increment the counter
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /**
+   * Set the counter to a total tracked elsewhere (from a collect hook)
+   */
+  set(value: number, labels: MetricLabels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /**
+   * Get the current value for a label set
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Gauge - A value that goes up and down
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  /**
+   * Set the gauge
+   */
+  set(value: number, labels: MetricLabels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /**
+   * Increment the gauge
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /**
+   * Decrement the gauge
+   */
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value -= value;
+  }
+
+  /**
+   * Get the current value for a label set
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Observations of a histogram for one label set
+ */
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Histogram - Counts observations in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record an observation
+   */
+  observe(value: number, labels: MetricLabels = {}): void {
+    const entry = this.entry(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[index]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * MetricsRegistry - Holds metrics and serializes them in the Prometheus
+ * text exposition format
+ *
+ * Registering a metric under an existing name returns the existing metric,
+ * so the engine, request handlers and application code can share metrics.
+ * Values computed on demand (memory, cache size) are updated by collect
+ * hooks right before serialization.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>();
+  private readonly collectors: (() => void | Promise<void>)[] = [];
+
+  /**
+   * @param logger - Logger for failing collect hooks
+   */
+  constructor(private readonly logger: Logger = createLogger({ name: 'MetricsRegistry' })) {}
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(name, Counter, () => new Counter(name, help));
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, Gauge, () => new Gauge(name, help));
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, Histogram, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Add a hook run before each serialization
+   */
+  collect(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Serialize all metrics in the Prometheus text format
+   */
+  async serialize(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        this.logger.error('Metrics collector failed', { error });
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Get an existing metric of the expected type, or register a new one
+   */
+  private register<T extends Metric<unknown>>(
+    name: string,
+    type: abstract new (...args: never[]) => T,
+    create: () => T
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Options for the metrics endpoint
+ */
+export interface MetricsEndpointOptions {
+  /**
+   * Path of the metrics endpoint
+   * @default '/metrics'
+   */
+  path?: string;
+
+  /**
+   * Registry to serve
+   * @default the engine's registry
+   */
+  registry?: MetricsRegistry;
+}
+
+/**
+ * Create a handler serving the metrics of a registry
+ */
+export function createMetricsHandler(
+  registry: MetricsRegistry
+): (request: Request) => Promise<Response> {
+  return async function metrics(request: Request): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+    }
+    return new Response(request.method === 'HEAD' ? null : await registry.serialize(), {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPurgeHandler } from './purge';
+import type { BunAngularEngine } from './engine';
+
+function setup() {
+  const invalidate = vi.fn().mockResolvedValue(3);
+  const engine = { invalidate } as unknown as BunAngularEngine;
+  const purge = createPurgeHandler(engine, { token: 'secret' });
+  return { invalidate, purge };
+}
+
+function post(body: unknown, token = 'secret'): Request {
+  return new Request('http://localhost/__ngx-bun/purge', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('createPurgeHandler', () => {
+  it('should invalidate matching entries', async () => {
+    const { invalidate, purge } = setup();
+    const response = await purge(post({ tags: ['article:1'], prefix: '/blog/' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ purged: 3 });
+    expect(invalidate).toHaveBeenCalledWith({ tags: ['article:1'], prefix: '/blog/' });
+  });
+
+  it('should reject invalid tokens', async () => {
+    const { invalidate, purge } = setup();
+    const response = await purge(post({ tags: ['a'] }, 'wrong'));
+
+    expect(response.status).toBe(401);
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should only accept POST requests', async () => {
+    const { purge } = setup();
+    const response = await purge(new Request('http://localhost/__ngx-bun/purge'));
+    expect(response.status).toBe(405);
+  });
+
+  it('should validate the request body', async () => {
+    const { purge } = setup();
+    expect((await purge(post('not json'))).status).toBe(400);
+    expect((await purge(post({ tags: 'a' }))).status).toBe(400);
+    expect((await purge(post({}))).status).toBe(400);
+  });
+
+  it('should require a token', () => {
+    expect(() => createPurgeHandler({} as BunAngularEngine, { token: '' })).toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { BunAngularEngine } from './engine';
+import type { InvalidateOptions } from './types';
+
+/**
+ * Options for the cache purge endpoint
+ */
+export interface PurgeEndpointOptions {
+  /**
+   * Secret token expected in the `Authorization: Bearer <token>` header
+   */
+  token: string;
+
+  /**
+   * Path of the purge endpoint
+   * @default '/__ngx-bun/purge'
+   */
+  path?: string;
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Build a JSON response
+ */
+function json(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Check that a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Create a handler for the cache purge endpoint
+ *
+ * Accepts `POST` requests with a JSON body of the form
+ * `{ "tags": [...], "paths": [...], "prefix": "/blog/" }` and responds with
+ * the number of purged entries.
+ */
+export function createPurgeHandler(
+  engine: Pick<BunAngularEngine, 'invalidate'>,
+  options: PurgeEndpointOptions
+): (request: Request) => Promise<Response> {
+  if (!options.token) {
+    throw new Error('The purge endpoint requires a non-empty token');
+  }
+
+  return async function purge(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405, { Allow: 'POST' });
+    }
+
+    const authorization = request.headers.get('Authorization') ?? '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+    if (!safeEqual(token, options.token)) {
+      return json({ error: 'Unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = (await request.json()) as Record<string, unknown>;
+    } catch {
+      return json({ error: 'Request body must be valid JSON' }, 400);
+    }
+
+    const criteria: InvalidateOptions = {};
+    if (body?.['tags'] !== undefined) {
+      if (!isStringArray(body['tags'])) {
+        return json({ error: '"tags" must be an array of strings' }, 400);
+      }
+      criteria.tags = body['tags'];
+    }
+    if (body?.['paths'] !== undefined) {
+      if (!isStringArray(body['paths'])) {
+        return json({ error: '"paths" must be an array of strings' }, 400);
+      }
+      criteria.paths = body['paths'];
+    }
+    if (body?.['prefix'] !== undefined) {
+      if (typeof body['prefix'] !== 'string' || body['prefix'] === '') {
+        return json({ error: '"prefix" must be a non-empty string' }, 400);
+      }
+      criteria.prefix = body['prefix'];
+    }
+
+    if (!criteria.tags?.length && !criteria.paths?.length && !criteria.prefix) {
+      return json({ error: 'Provide at least one of "tags", "paths" or "prefix"' }, 400);
+    }
+
+    const purged = await engine.invalidate(criteria);
+    return json({ purged }, 200);
+  };
+}
@@ -0,0 +1,58 @@
+import { BunAngularEngine } from './engine';
+import type { BunAngularEngineOptions } from './types';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './worker-pool';
+
+/**
+ * Options for a render worker
+ */
+export type RenderWorkerOptions = Pick<
+  BunAngularEngineOptions,
+  'bootstrap' | 'providers' | 'http'
+>;
+
+/**
+ * Serve renders from a RenderWorkerPool inside a Bun Worker
+ *
+ * Call this from the worker entry module passed as `workers.script`:
+ *
+ * ```typescript
+ * // render.worker.ts
+ * import { startRenderWorker } from '@pegasusheavy/ngx-bun';
+ * import bootstrap from './main.server';
+ *
+ * startRenderWorker({ bootstrap });
+ * ```
+ *
+ * Providers passed per render cannot cross the worker boundary, so the
+ * worker's own `providers` are used instead.
+ */
+export function startRenderWorker(options: RenderWorkerOptions): void {
+  // Caching happens on the main thread
+  const engine = new BunAngularEngine({
+    bootstrap: options.bootstrap,
+    providers: options.providers,
+    http: options.http,
+    browserDistFolder: '',
+    enableCache: false,
+  });
+
+  addEventListener('message', async (event) => {
+    const { id, document, request, ...rest } = (
+      event as MessageEvent<RenderWorkerRequest & { id: number }>
+    ).data;
+
+    let response: RenderWorkerResponse;
+    try {
+      const page = await engine.renderPage(document, {
+        ...rest,
+        request: request ? new Request(request.url, request) : undefined,
+      });
+      response = { id, page, heapUsed: process.memoryUsage().heapUsed };
+    } catch (error) {
+      const { name, message, stack } =
+        error instanceof Error ? error : new Error(String(error));
+      response = { id, error: { name, message, stack }, heapUsed: process.memoryUsage().heapUsed };
+    }
+    postMessage(response);
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Options for a cookie set during server-side rendering
+ */
+export interface CookieOptions {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  /**
+   * Lifetime in seconds
+   */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Serialize a cookie into a Set-Cookie header value
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+): string {
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  cookie += `; Path=${options.path ?? '/'}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  if (options.httpOnly) cookie += '; HttpOnly';
+  if (options.secure) cookie += '; Secure';
+  if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
+  return cookie;
+}
+
+/**
+ * Mutable response init for the page being rendered
+ *
+ * Provided per render through the SERVER_RESPONSE token and Angular's own
+ * RESPONSE_INIT token. The engine merges the final status, headers and
+ * cookies into the render result.
+ */
+export class ServerResponseInit implements ResponseInit {
+  status = 200;
+  statusText?: string;
+  headers: Headers = new Headers();
+
+  /**
+   * Set a cookie on the response
+   *
+   * Pages that set cookies are never stored in the render cache.
+   */
+  setCookie(name: string, value: string, options?: CookieOptions): void {
+    this.headers.append('Set-Cookie', serializeCookie(name, value, options));
+  }
+
+  /**
+   * Split the response headers into plain headers and Set-Cookie values
+   */
+  collect(): { headers: Record<string, string>; cookies: string[] } {
+    // Code written against RESPONSE_INIT may replace headers with a plain object
+    const headers = new Headers(this.headers);
+    const record: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      if (name !== 'set-cookie') {
+        record[name] = value;
+      }
+    });
+    return { headers: record, cookies: headers.getSetCookie() };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { compileRoutePath, createRouteMatcher } from './routes';
+import type { RouteConfig } from './types';
+
+describe('compileRoutePath', () => {
+  it('should match static paths with optional slashes', () => {
+    const pattern = compileRoutePath('about');
+    expect(pattern.test('/about')).toBe(true);
+    expect(pattern.test('/about/')).toBe(true);
+    expect(pattern.test('/about/team')).toBe(false);
+  });
+
+  it('should match parameters and single-segment wildcards', () => {
+    expect(compileRoutePath('/blog/:slug').test('/blog/hello')).toBe(true);
+    expect(compileRoutePath('/blog/:slug').test('/blog/hello/world')).toBe(false);
+    expect(compileRoutePath('/users/*/edit').test('/users/42/edit')).toBe(true);
+  });
+
+  it('should match any depth with **', () => {
+    const pattern = compileRoutePath('admin/**');
+    expect(pattern.test('/admin')).toBe(true);
+    expect(pattern.test('/admin/users/42')).toBe(true);
+    expect(pattern.test('/administrator')).toBe(false);
+    expect(compileRoutePath('**').test('/anything/at/all')).toBe(true);
+  });
+
+  it('should match the root path', () => {
+    expect(compileRoutePath('').test('/')).toBe(true);
+    expect(compileRoutePath('/').test('/')).toBe(true);
+  });
+
+  it('should escape special characters', () => {
+    expect(compileRoutePath('/file.txt').test('/fileatxt')).toBe(false);
+  });
+});
+
+describe('createRouteMatcher', () => {
+  const routes: RouteConfig[] = [
+    { path: 'admin/**', renderMode: 'client' },
+    { path: 'about', renderMode: 'prerender' },
+    { path: '**', renderMode: 'server' },
+  ];
+
+  it('should return the first matching route', () => {
+    const match = createRouteMatcher(routes);
+    expect(match('/admin/settings')?.renderMode).toBe('client');
+    expect(match('/about')?.renderMode).toBe('prerender');
+    expect(match('/products/1')?.renderMode).toBe('server');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    const match = createRouteMatcher([{ path: 'about', renderMode: 'server' }]);
+    expect(match('/contact')).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import type { RenderOptions, RouteConfig } from './types';
+
+/**
+ * Compiled route with its matching pattern
+ */
+interface CompiledRoute {
+  route: RouteConfig;
+  pattern: RegExp;
+}
+
+/**
+ * Function returning the route config for a pathname, if any
+ */
+export type RouteMatcher = (pathname: string) => RouteConfig | undefined;
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a route path into a regular expression
+ *
+ * Paths follow Angular's server route syntax:
+ * - `:param` and `*` match a single segment
+ * - `**` matches any number of segments (including none)
+ *
+ * Leading and trailing slashes are optional.
+ */
+export function compileRoutePath(path: string): RegExp {
+  const segments = path.split('/').filter(Boolean);
+  let source = '';
+  for (const segment of segments) {
+    if (segment === '**') {
+      source += '(?:/.*)?';
+    } else if (segment === '*' || segment.startsWith(':')) {
+      source += '/[^/]+';
+    } else {
+      source += `/${escapeRegExp(segment)}`;
+    }
+  }
+  return new RegExp(`^${source}/?$`);
+}
+
+/**
+ * Create a matcher returning the first route config matching a pathname
+ */
+export function createRouteMatcher(routes: RouteConfig[]): RouteMatcher {
+  const compiled: CompiledRoute[] = routes.map((route) => ({
+    route,
+    pattern: compileRoutePath(route.path),
+  }));
+
+  return (pathname) => {
+    const normalized = pathname === '' ? '/' : pathname;
+    return compiled.find(({ pattern }) => pattern.test(normalized))?.route;
+  };
+}
+
+/**
+ * Get the render options set by a route config
+ */
+export function getRouteRenderOptions(
+  route: RouteConfig | undefined
+): Pick<
+  RenderOptions,
+  'skipCache' | 'cacheTtl' | 'cacheTags' | 'redirectStatus' | 'renderTimeout' | 'earlyFlush'
+> {
+  return {
+    skipCache: route?.cache === false,
+    cacheTtl: route?.cacheTtl,
+    cacheTags: route?.cacheTags,
+    redirectStatus: route?.redirectStatus,
+    renderTimeout: route?.renderTimeout,
+    earlyFlush: route?.earlyFlush,
+  };
+}
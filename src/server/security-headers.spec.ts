@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { applySecurityHeaders, getSecurityHeaders } from './security-headers';
+
+describe('getSecurityHeaders', () => {
+  it('should return the defaults without HSTS over plain HTTP', () => {
+    expect(Object.fromEntries(getSecurityHeaders())).toEqual({
+      'X-Content-Type-Options': 'nosniff',
+      'Referrer-Policy': 'strict-origin-when-cross-origin',
+      'X-Frame-Options': 'SAMEORIGIN',
+      'Content-Security-Policy': "frame-ancestors 'self'",
+      'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+      'Cross-Origin-Opener-Policy': 'same-origin',
+    });
+  });
+
+  it('should send HSTS when TLS is enabled', () => {
+    const headers = Object.fromEntries(getSecurityHeaders({ hsts: { preload: true } }, true));
+    expect(headers['Strict-Transport-Security']).toBe(
+      'max-age=31536000; includeSubDomains; preload'
+    );
+  });
+
+  it('should allow overriding and disabling headers', () => {
+    const headers = Object.fromEntries(
+      getSecurityHeaders(
+        { frameOptions: 'DENY', referrerPolicy: 'no-referrer', permissionsPolicy: false },
+        true
+      )
+    );
+    expect(headers['X-Frame-Options']).toBe('DENY');
+    expect(headers['Content-Security-Policy']).toBe("frame-ancestors 'none'");
+    expect(headers['Referrer-Policy']).toBe('no-referrer');
+    expect(headers['Permissions-Policy']).toBeUndefined();
+  });
+});
+
+describe('applySecurityHeaders', () => {
+  it('should keep headers set by the response and add frame-ancestors to its CSP', () => {
+    const response = new Response('ok', {
+      headers: {
+        'Referrer-Policy': 'no-referrer',
+        'Content-Security-Policy': "script-src 'self'",
+      },
+    });
+    const secured = applySecurityHeaders(response, getSecurityHeaders());
+
+    expect(secured.headers.get('Referrer-Policy')).toBe('no-referrer');
+    expect(secured.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(secured.headers.get('Content-Security-Policy')).toBe(
+      "script-src 'self', frame-ancestors 'self'"
+    );
+  });
+
+  it('should copy responses with immutable headers', async () => {
+    const response = Response.redirect('http://localhost/login', 302);
+    const secured = applySecurityHeaders(response, getSecurityHeaders());
+
+    expect(secured.status).toBe(302);
+    expect(secured.headers.get('Location')).toBe('http://localhost/login');
+    expect(secured.headers.get('X-Frame-Options')).toBe('SAMEORIGIN');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Security headers added to every response
+ *
+ * Each header can be overridden with a custom value or disabled with `false`.
+ */
+export interface SecurityHeadersOptions {
+  /**
+   * Strict-Transport-Security, only sent when the server uses TLS
+   * @default { maxAge: 31536000, includeSubDomains: true }
+   */
+  hsts?: { maxAge?: number; includeSubDomains?: boolean; preload?: boolean } | false;
+
+  /**
+   * X-Content-Type-Options: nosniff
+   * @default true
+   */
+  contentTypeOptions?: boolean;
+
+  /**
+   * Referrer-Policy
+   * @default 'strict-origin-when-cross-origin'
+   */
+  referrerPolicy?: string | false;
+
+  /**
+   * Framing policy, sent as X-Frame-Options and as a `frame-ancestors`
+   * Content-Security-Policy
+   * @default 'SAMEORIGIN'
+   */
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false;
+
+  /**
+   * Permissions-Policy
+   * @default 'camera=(), microphone=(), geolocation=()'
+   */
+  permissionsPolicy?: string | false;
+
+  /**
+   * Cross-Origin-Opener-Policy
+   * @default 'same-origin'
+   */
+  crossOriginOpenerPolicy?: string | false;
+}
+
+/**
+ * Build the list of security headers for the given options
+ */
+export function getSecurityHeaders(
+  options: SecurityHeadersOptions = {},
+  tls = false
+): [name: string, value: string][] {
+  const headers: [string, string][] = [];
+
+  const hsts = options.hsts ?? { maxAge: 31_536_000, includeSubDomains: true };
+  if (tls && hsts) {
+    let value = `max-age=${hsts.maxAge ?? 31_536_000}`;
+    if (hsts.includeSubDomains ?? true) value += '; includeSubDomains';
+    if (hsts.preload) value += '; preload';
+    headers.push(['Strict-Transport-Security', value]);
+  }
+
+  if (options.contentTypeOptions ?? true) {
+    headers.push(['X-Content-Type-Options', 'nosniff']);
+  }
+
+  const referrerPolicy = options.referrerPolicy ?? 'strict-origin-when-cross-origin';
+  if (referrerPolicy) {
+    headers.push(['Referrer-Policy', referrerPolicy]);
+  }
+
+  const frameOptions = options.frameOptions ?? 'SAMEORIGIN';
+  if (frameOptions) {
+    headers.push(['X-Frame-Options', frameOptions]);
+    headers.push([
+      'Content-Security-Policy',
+      `frame-ancestors ${frameOptions === 'DENY' ? "'none'" : "'self'"}`,
+    ]);
+  }
+
+  const permissionsPolicy =
+    options.permissionsPolicy ?? 'camera=(), microphone=(), geolocation=()';
+  if (permissionsPolicy) {
+    headers.push(['Permissions-Policy', permissionsPolicy]);
+  }
+
+  const crossOriginOpenerPolicy = options.crossOriginOpenerPolicy ?? 'same-origin';
+  if (crossOriginOpenerPolicy) {
+    headers.push(['Cross-Origin-Opener-Policy', crossOriginOpenerPolicy]);
+  }
+
+  return headers;
+}
+
+/**
+ * Add security headers to a response
+ *
+ * Headers already set on the response win, except Content-Security-Policy:
+ * the `frame-ancestors` policy is sent as an additional header, which
+ * browsers enforce alongside the page's own policy.
+ */
+export function applySecurityHeaders(
+  response: Response,
+  headers: [name: string, value: string][]
+): Response {
+  let target = response;
+  try {
+    setHeaders(target.headers, headers);
+  } catch {
+    // Headers of fetched responses are immutable
+    target = new Response(response.body, response);
+    setHeaders(target.headers, headers);
+  }
+  return target;
+}
+
+/**
+ * Set headers that are not present yet
+ */
+function setHeaders(target: Headers, headers: [string, string][]): void {
+  for (const [name, value] of headers) {
+    if (name === 'Content-Security-Policy') {
+      target.append(name, value);
+    } else if (!target.has(name)) {
+      target.set(name, value);
+    }
+  }
+}
@@ -1,6 +1,19 @@
+import { dirname } from 'node:path';
 import type { BunAngularEngine } from './engine';
 import type { BunStaticFileHandler } from './static';
-import { createRequestHandler, type RequestHandlerOptions } from './handler';
+import { createRequestHandler, type BunRequestHandler, type RequestHandlerOptions } from './handler';
+import { createPurgeHandler, type PurgeEndpointOptions } from './purge';
+import { createMetricsHandler, type MetricsEndpointOptions } from './metrics';
+import { ServerHealth, createHealthHandler, type HealthCheckOptions } from './health';
+import { CacheWarmer, type WarmupOptions } from './warmup';
+import { createLocalizedRequestHandler, type LocaleRoutingOptions } from './i18n';
+import { createRouteMatcher } from './routes';
+import {
+  applySecurityHeaders,
+  getSecurityHeaders,
+  type SecurityHeadersOptions,
+} from './security-headers';
+import type { InvalidateOptions } from './types';
 
 // Use ReturnType to get the correct server type
 type BunServer = ReturnType<typeof Bun.serve>;
@@ -8,11 +21,18 @@ type BunServer = ReturnType<typeof Bun.serve>;
 /**
  * Options for creating a Bun server with Angular SSR
  */
-export interface BunServerOptions extends Omit<RequestHandlerOptions, 'engine' | 'staticHandler'> {
+export interface BunServerOptions<TContext = unknown>
+  extends Omit<RequestHandlerOptions<TContext>, 'engine' | 'staticHandler'> {
   /**
-   * The Angular SSR engine instance
+   * The Angular SSR engine instance (not needed with `i18n`)
    */
-  engine: BunAngularEngine;
+  engine?: BunAngularEngine;
+
+  /**
+   * Serve localized builds with an engine per locale. Requests are routed
+   * by their locale prefix, and other URLs redirect to the visitor's locale.
+   */
+  i18n?: LocaleRoutingOptions;
 
   /**
    * Port to listen on
@@ -66,6 +86,40 @@ export interface BunServerOptions extends Omit<RequestHandlerOptions, 'engine' |
    * Callback for each request (before handling)
    */
   onRequest?: (request: Request) => void | Promise<void>;
+
+  /**
+   * Enable a token-protected endpoint for purging cached pages
+   * (`POST /__ngx-bun/purge` by default)
+   */
+  purge?: PurgeEndpointOptions;
+
+  /**
+   * Serve the engine's metrics in the Prometheus text format
+   * (`GET /metrics` by default)
+   * @default false
+   */
+  metrics?: boolean | MetricsEndpointOptions;
+
+  /**
+   * Add security headers to SSR, static and error responses. Pass `true`
+   * for the defaults or an object to override them.
+   * @default false
+   */
+  securityHeaders?: boolean | SecurityHeadersOptions;
+
+  /**
+   * Serve liveness (`/healthz`) and readiness (`/readyz`) endpoints.
+   * Readiness passes once the template is loaded and the warmup URLs have
+   * rendered, and fails again while the server drains on `stop()`.
+   */
+  health?: HealthCheckOptions;
+
+  /**
+   * Render URLs from a list, a sitemap.xml or a function into the cache at
+   * startup, and optionally re-render them on an interval. With health
+   * checks enabled, readiness waits for the first run.
+   */
+  warmup?: WarmupOptions;
 }
 
 /**
@@ -78,24 +132,41 @@ export interface BunAngularServer {
   server: BunServer;
 
   /**
-   * The Angular SSR engine
+   * The Angular SSR engine (the default locale's engine with `i18n`)
    */
   engine: BunAngularEngine;
 
   /**
-   * Stop the server
+   * Readiness of the server, when health checks are enabled
+   */
+  health: ServerHealth | null;
+
+  /**
+   * Cache warmer, when warmup is configured
    */
-  stop(): void;
+  warmer: CacheWarmer | null;
+
+  /**
+   * Stop the server and its render workers, then flush and close the access
+   * log. With health checks enabled, readiness fails for `drainDelay` and
+   * in-flight requests complete first.
+   */
+  stop(): Promise<void>;
 
   /**
    * Reload the server (useful for development)
    */
-  reload(): void;
+  reload(): Promise<void>;
 
   /**
    * Clear the render cache
    */
-  clearCache(): void;
+  clearCache(): Promise<void>;
+
+  /**
+   * Remove cached pages by tag, path or path prefix
+   */
+  invalidate(criteria: InvalidateOptions): Promise<number>;
 
   /**
    * Get server info
@@ -110,9 +181,12 @@ export interface BunAngularServer {
 /**
  * Create and start a Bun server with Angular SSR support
  */
-export function createBunServer(options: BunServerOptions): BunAngularServer {
+export function createBunServer<TContext = unknown>(
+  options: BunServerOptions<TContext>
+): BunAngularServer {
   const {
-    engine,
+    engine: engineOption,
+    i18n,
     port = 4000,
     hostname = 'localhost',
     serveStatic = true,
@@ -121,36 +195,96 @@ export function createBunServer(options: BunServerOptions): BunAngularServer {
     tls,
     onStart,
     onRequest,
+    purge,
+    metrics,
+    securityHeaders,
+    health: healthOptions,
+    warmup,
     logging = development,
+    logger: loggerOption,
     ...handlerOptions
   } = options;
 
+  // With i18n, server-wide operations apply to every locale's engine
+  const engine = engineOption ?? i18n?.engines.defaultEngine;
+  if (!engine) {
+    throw new Error('Either engine or i18n must be provided');
+  }
+  const engines = i18n?.engines ?? engine;
+  const logger = loggerOption ?? engine.logger;
+
   // Create or use provided static handler
   let staticHandler = options.staticHandler;
   if (serveStatic && !staticHandler) {
     // Dynamic import to avoid issues when static handling isn't needed
     const { createStaticFileHandler } = require('./static');
     staticHandler = createStaticFileHandler({
-      root: staticDir ?? engine.getBrowserDistFolder(),
+      // Localized builds live in one folder per locale
+      root:
+        staticDir ??
+        (i18n ? dirname(engine.getBrowserDistFolder()) : engine.getBrowserDistFolder()),
       compression: true,
+      locales: i18n?.engines.getBrowserDistFolders(),
     });
   }
 
   // Create the request handler
-  const handler = createRequestHandler({
-    engine,
-    staticHandler,
-    logging,
-    ...handlerOptions,
-  });
+  const handler = i18n
+    ? createLocalizedRequestHandler({ ...i18n, staticHandler, logging, logger, ...handlerOptions })
+    : createRequestHandler({
+        engine,
+        staticHandler,
+        logging,
+        logger,
+        ...handlerOptions,
+      });
+
+  // Route purge requests to the purge endpoint
+  const purgeHandler = purge ? createPurgeHandler(engines, purge) : null;
+  const purgePath = purge?.path ?? '/__ngx-bun/purge';
+  const ssrHandler: BunRequestHandler = purgeHandler
+    ? (request, server) =>
+        new URL(request.url).pathname === purgePath
+          ? purgeHandler(request)
+          : handler(request, server)
+    : handler;
+
+  // Route metrics scrapes to the metrics endpoint
+  const metricsOptions = metrics === true ? {} : metrics || null;
+  const metricsHandler = metricsOptions
+    ? createMetricsHandler(metricsOptions.registry ?? engine.metrics)
+    : null;
+  const metricsPath = metricsOptions?.path ?? '/metrics';
+  const appHandler: BunRequestHandler = metricsHandler
+    ? (request, server) =>
+        new URL(request.url).pathname === metricsPath
+          ? metricsHandler(request)
+          : ssrHandler(request, server)
+    : ssrHandler;
+
+  // Answer health checks before anything else
+  const health = healthOptions ? new ServerHealth(engines, logger) : null;
+  const healthCheck = health ? createHealthHandler(health, healthOptions) : null;
+  const probedHandler: BunRequestHandler = healthCheck
+    ? async (request, server) => healthCheck(request) ?? appHandler(request, server)
+    : appHandler;
+
+  // Add security headers to every response
+  const headers = securityHeaders
+    ? getSecurityHeaders(securityHeaders === true ? {} : securityHeaders, !!tls)
+    : null;
+  const secureHandler: BunRequestHandler = headers
+    ? async (request, server) =>
+        applySecurityHeaders(await probedHandler(request, server), headers)
+    : probedHandler;
 
   // Wrap handler with onRequest hook if provided
-  const wrappedHandler = onRequest
-    ? async (request: Request) => {
+  const wrappedHandler: BunRequestHandler = onRequest
+    ? async (request, server) => {
         await onRequest(request);
-        return handler(request);
+        return secureHandler(request, server);
       }
-    : handler;
+    : secureHandler;
 
   // Create server configuration
   const serveConfig = {
@@ -172,30 +306,68 @@ export function createBunServer(options: BunServerOptions): BunAngularServer {
   // Log startup message
   const protocol = tls ? 'https' : 'http';
   const url = `${protocol}://${hostname}:${port}`;
-  console.log(`\n🚀 Angular SSR server running at ${url}`);
-  if (development) {
-    console.log('   Mode: Development');
-  }
-  console.log('');
+  logger.info(`Angular SSR server running at ${url}`, {
+    url,
+    mode: development ? 'development' : 'production',
+  });
+
+  // Warm the cache and render the warmup URLs in the background;
+  // readiness fails until both are done
+  // Render with the handler's route configs, relative to the locale prefix
+  const matchRoute = createRouteMatcher(handlerOptions.routes ?? []);
+  const warmer = warmup
+    ? new CacheWarmer(engines, warmup, logger, {
+        origin: url,
+        matchRoute: (pathname) => {
+          const locale = i18n?.engines.fromPath(pathname);
+          return matchRoute(locale ? pathname.slice(locale.length + 1) : pathname);
+        },
+      })
+    : null;
+  void (async () => {
+    await warmer?.start();
+    await health?.warmup(healthOptions?.warmupUrls);
+  })();
 
   return {
     server,
     engine,
+    health,
+    warmer,
+
+    async stop() {
+      warmer?.stop();
+      if (health) {
+        health.drain();
+        const drainDelay = healthOptions?.drainDelay ?? 0;
+        if (drainDelay > 0) {
+          logger.info('Draining server', { drainDelay });
+          await Bun.sleep(drainDelay);
+        }
+        // Let in-flight requests complete
+        await server.stop();
+      } else {
+        await server.stop(true);
+      }
+      engines.close();
+      // Flush the access log of the requests served until now
+      await handler.close();
+      logger.info('Server stopped');
+    },
 
-    stop() {
-      server.stop(true);
-      console.log('Server stopped');
+    async reload() {
+      engines.reloadTemplate();
+      await engines.clearCache();
+      logger.info('Server reloaded');
     },
 
-    reload() {
-      engine.reloadTemplate();
-      engine.clearCache();
-      console.log('Server reloaded');
+    async clearCache() {
+      await engines.clearCache();
+      logger.info('Cache cleared');
     },
 
-    clearCache() {
-      engine.clearCache();
-      console.log('Cache cleared');
+    invalidate(criteria) {
+      return engines.invalidate(criteria);
     },
 
     info() {
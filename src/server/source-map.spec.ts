@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SourceMapConsumer, StackTraceMapper, decodeVlq, type SourceMap } from './source-map';
+
+// Generated column 0 maps to line 10 and column 10 to line 20 of src/app/app.ts
+const map: SourceMap = {
+  version: 3,
+  sources: ['../src/app/app.ts'],
+  mappings: 'AASI,UAUF',
+};
+
+describe('decodeVlq', () => {
+  it('should decode positive, negative and multi-digit values', () => {
+    expect(decodeVlq('AAAA')).toEqual([0, 0, 0, 0]);
+    expect(decodeVlq('D')).toEqual([-1]);
+    expect(decodeVlq('gB')).toEqual([16]);
+    expect(decodeVlq('AAgBC')).toEqual([0, 0, 16, 1]);
+  });
+
+  it('should reject invalid characters', () => {
+    expect(() => decodeVlq('A!')).toThrow('Invalid VLQ character');
+  });
+});
+
+describe('SourceMapConsumer', () => {
+  const consumer = new SourceMapConsumer(map, '/app/dist/main.js.map');
+
+  it('should find the closest preceding segment', () => {
+    expect(consumer.originalPositionFor(1, 5)).toEqual({
+      source: '/app/src/app/app.ts',
+      line: 10,
+      column: 5,
+    });
+    expect(consumer.originalPositionFor(1, 12)).toEqual({
+      source: '/app/src/app/app.ts',
+      line: 20,
+      column: 3,
+    });
+  });
+
+  it('should return null for unmapped lines', () => {
+    expect(consumer.originalPositionFor(2, 1)).toBeNull();
+  });
+});
+
+describe('StackTraceMapper', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ngx-bun-source-map-'));
+    await writeFile(join(dir, 'main.js'), 'throw new Error("boom");\n');
+    await writeFile(join(dir, 'main.js.map'), JSON.stringify(map));
+    const inline = Buffer.from(JSON.stringify(map)).toString('base64');
+    await writeFile(
+      join(dir, 'inline.js'),
+      `throw new Error("boom");\n//# sourceMappingURL=data:application/json;base64,${inline}\n`
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should map frames using adjacent and inline source maps', () => {
+    const mapper = new StackTraceMapper();
+    const stack = [
+      'Error: boom',
+      `    at render (${join(dir, 'main.js')}:1:12)`,
+      `    at file://${join(dir, 'inline.js')}:1:1`,
+    ].join('\n');
+
+    const source = join(dir, '..', 'src/app/app.ts');
+    expect(mapper.map(stack)).toBe(
+      ['Error: boom', `    at render (${source}:20:3)`, `    at ${source}:10:5`].join('\n')
+    );
+  });
+
+  it('should leave frames without a source map alone', () => {
+    const stack = 'Error: boom\n    at /nonexistent/server.js:3:7';
+    expect(new StackTraceMapper().map(stack)).toBe(stack);
+  });
+});
@@ -0,0 +1,200 @@
+import { readFileSync } from 'node:fs';
+import { dirname, isAbsolute, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Source map (version 3) as emitted by esbuild and the Angular CLI
+ */
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+/**
+ * Position in an original source file (1-based line and column)
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Decoded mapping segment: generated column, source index, source line and
+ * source column (all 0-based)
+ */
+type Segment = [number, number, number, number];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// file:line:column locations in V8 and JavaScriptCore stack frames
+const STACK_LOCATION_PATTERN = /((?:file:\/\/)?(?:\/|[A-Za-z]:[\\/])[^\s():]+):(\d+):(\d+)/g;
+const SOURCE_MAPPING_URL_PATTERN = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/;
+
+/**
+ * Decode a Base64 VLQ encoded mapping segment
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid VLQ character "${char}"`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * Decode the mappings of a source map into segments per generated line
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let source = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let column = 0;
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const [columnDelta, sourceDelta, lineDelta, sourceColumnDelta] = decodeVlq(encoded);
+      column += columnDelta;
+      // Segments without a source do not map to anything
+      if (sourceDelta === undefined) continue;
+      source += sourceDelta;
+      sourceLine += lineDelta;
+      sourceColumn += sourceColumnDelta;
+      segments.push([column, source, sourceLine, sourceColumn]);
+    }
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+  return lines;
+}
+
+/**
+ * SourceMapConsumer - Looks up original positions in a source map
+ */
+export class SourceMapConsumer {
+  private readonly lines: Segment[][];
+  private readonly sources: string[];
+
+  /**
+   * @param map - The parsed source map
+   * @param mapPath - Path of the map file, used to resolve relative sources
+   */
+  constructor(map: SourceMap, mapPath?: string) {
+    this.lines = decodeMappings(map.mappings);
+    const root = map.sourceRoot ?? '';
+    this.sources = map.sources.map((source) => {
+      const path = root ? `${root.replace(/\/+$/, '')}/${source}` : source;
+      if (!mapPath || isAbsolute(path) || /^[a-z][a-z\d+.-]*:/i.test(path)) {
+        return path;
+      }
+      return resolve(dirname(mapPath), path);
+    });
+  }
+
+  /**
+   * Find the original position of a generated position (1-based line and
+   * column, as found in stack traces)
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments?.length) return null;
+
+    // Last segment starting at or before the column
+    let match: Segment | undefined;
+    for (const segment of segments) {
+      if (segment[0] > column - 1) break;
+      match = segment;
+    }
+    match ??= segments[0];
+
+    return {
+      source: this.sources[match[1]],
+      line: match[2] + 1,
+      column: match[3] + 1,
+    };
+  }
+}
+
+/**
+ * StackTraceMapper - Rewrites stack traces to point at original sources
+ *
+ * Source maps are found through the `sourceMappingURL` comment of each
+ * file in the stack (inline data URLs included) or next to the file as
+ * `<file>.map`. Frames without a source map are left alone.
+ */
+export class StackTraceMapper {
+  private readonly consumers = new Map<string, SourceMapConsumer | null>();
+
+  /**
+   * Map every location of a stack trace
+   */
+  map(stack: string): string {
+    return stack.replace(STACK_LOCATION_PATTERN, (location, file: string, line, column) => {
+      const consumer = this.getConsumer(file);
+      const original = consumer?.originalPositionFor(Number(line), Number(column));
+      return original ? `${original.source}:${original.line}:${original.column}` : location;
+    });
+  }
+
+  /**
+   * Forget loaded source maps (after a rebuild)
+   */
+  clear(): void {
+    this.consumers.clear();
+  }
+
+  /**
+   * Load the source map of a generated file, or null if it has none
+   */
+  private getConsumer(file: string): SourceMapConsumer | null {
+    const path = file.startsWith('file://') ? fileURLToPath(file) : file;
+    let consumer = this.consumers.get(path);
+    if (consumer === undefined) {
+      consumer = loadSourceMap(path);
+      this.consumers.set(path, consumer);
+    }
+    return consumer;
+  }
+}
+
+/**
+ * Read the source map of a generated file
+ */
+function loadSourceMap(path: string): SourceMapConsumer | null {
+  try {
+    const code = readFileSync(path, 'utf-8');
+    const url = SOURCE_MAPPING_URL_PATTERN.exec(code)?.[1];
+
+    if (url?.startsWith('data:')) {
+      const data = url.slice(url.indexOf(',') + 1);
+      const json = url.includes(';base64,')
+        ? Buffer.from(data, 'base64').toString('utf-8')
+        : decodeURIComponent(data);
+      return new SourceMapConsumer(JSON.parse(json) as SourceMap, path);
+    }
+
+    const mapPath = url ? resolve(dirname(path), decodeURIComponent(url)) : `${path}.map`;
+    const map = JSON.parse(readFileSync(mapPath, 'utf-8')) as SourceMap;
+    return new SourceMapConsumer(map, mapPath);
+  } catch {
+    return null;
+  }
+}
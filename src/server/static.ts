@@ -93,6 +93,13 @@ export interface StaticFileOptions {
    * @default false
    */
   directoryListing?: boolean;
+
+  /**
+   * Roots of localized builds keyed by the locale's URL prefix, so
+   * `/de/main.js` is served from `<locales.de>/main.js`. Other paths are
+   * served from `root`.
+   */
+  locales?: Record<string, string>;
 }
 
 /**
@@ -148,6 +155,7 @@ export class BunStaticFileHandler {
   private readonly headers: Record<string, string>;
   private readonly exclude: RegExp[];
   private readonly directoryListing: boolean;
+  private readonly localeRoots: Map<string, string>;
 
   constructor(options: StaticFileOptions) {
     this.root = resolve(options.root);
@@ -158,6 +166,12 @@ export class BunStaticFileHandler {
     this.headers = options.headers ?? {};
     this.exclude = options.exclude ?? [];
     this.directoryListing = options.directoryListing ?? false;
+    this.localeRoots = new Map(
+      Object.entries(options.locales ?? {}).map(([locale, root]) => [
+        locale.toLowerCase(),
+        resolve(root),
+      ])
+    );
   }
 
   /**
@@ -195,13 +209,19 @@ export class BunStaticFileHandler {
   }
 
   /**
-   * Resolve a URL path to a file path
+   * Resolve a URL path to a file path and the root it must stay within
    */
-  private resolveFilePath(urlPath: string): string {
+  private resolveFilePath(urlPath: string): { root: string; filePath: string } {
     // Normalize the path and prevent directory traversal
     const normalized = urlPath.replace(/\\/g, '/').replace(/\.\.+/g, '');
     const segments = normalized.split('/').filter(Boolean);
-    return join(this.root, ...segments);
+
+    // Serve localized paths from the locale's root
+    const localeRoot = segments[0] && this.localeRoots.get(segments[0].toLowerCase());
+    if (localeRoot) {
+      return { root: localeRoot, filePath: join(localeRoot, ...segments.slice(1)) };
+    }
+    return { root: this.root, filePath: join(this.root, ...segments) };
   }
 
   /**
@@ -219,10 +239,11 @@ export class BunStaticFileHandler {
       };
     }
 
-    let filePath = this.resolveFilePath(urlPath);
+    const resolved = this.resolveFilePath(urlPath);
+    let filePath = resolved.filePath;
 
     // Prevent directory traversal
-    const relativePath = relative(this.root, filePath);
+    const relativePath = relative(resolved.root, filePath);
     if (relativePath.startsWith('..') || relativePath.startsWith('/')) {
       return {
         filePath: '',
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createDocumentStream, createEarlyDocumentStream, splitDocumentShell } from './stream';
+
+const template = '<!doctype html><html lang="en"><head><title>App</title></head><body><app-root></app-root></body></html>';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(decoder.decode(value));
+  }
+  return chunks;
+}
+
+describe('splitDocumentShell', () => {
+  it('should split right after the opening head tag', () => {
+    const [shell, rest] = splitDocumentShell(template);
+    expect(shell).toBe('<!doctype html><html lang="en"><head>');
+    expect(rest).toBe('<title>App</title></head><body><app-root></app-root></body></html>');
+  });
+
+  it('should handle head tags with attributes', () => {
+    const [shell] = splitDocumentShell('<html><head data-x="1"><title></title></head></html>');
+    expect(shell).toBe('<html><head data-x="1">');
+  });
+
+  it('should not mistake <header> for <head>', () => {
+    const [shell, rest] = splitDocumentShell('<body><header></header></body>');
+    expect(shell).toBe('');
+    expect(rest).toBe('<body><header></header></body>');
+  });
+});
+
+describe('createDocumentStream', () => {
+  it('should send the shell, head and body as separate chunks', async () => {
+    const html = template.replace('<app-root></app-root>', '<app-root>Hello</app-root>');
+    expect(await readAll(createDocumentStream(html))).toEqual([
+      '<!doctype html><html lang="en"><head>',
+      '<title>App</title></head>',
+      '<body><app-root>Hello</app-root></body></html>',
+    ]);
+  });
+
+  it('should send documents without a head in one chunk', async () => {
+    expect(await readAll(createDocumentStream('<p>fragment</p>'))).toEqual(['<p>fragment</p>']);
+  });
+});
+
+describe('createEarlyDocumentStream', () => {
+  it('should send the template shell before the document is rendered', async () => {
+    let resolve!: (html: string) => void;
+    const rendered = new Promise<string>((r) => (resolve = r));
+    const reader = createEarlyDocumentStream(template, rendered).getReader();
+    const decoder = new TextDecoder();
+
+    expect(decoder.decode((await reader.read()).value)).toBe(
+      '<!doctype html><html lang="en"><head>'
+    );
+    resolve(template.replace('<app-root></app-root>', '<app-root>Hello</app-root>'));
+    expect(decoder.decode((await reader.read()).value)).toBe('<title>App</title></head>');
+    expect(decoder.decode((await reader.read()).value)).toBe(
+      '<body><app-root>Hello</app-root></body></html>'
+    );
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it('should error the stream when the render fails', async () => {
+    const stream = createEarlyDocumentStream(template, Promise.reject(new Error('boom')));
+    await expect(readAll(stream)).rejects.toThrow('boom');
+  });
+});
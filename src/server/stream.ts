@@ -0,0 +1,105 @@
+/**
+ * Streaming helpers for server-side rendered documents
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Matches the opening <head> tag of a document (with or without attributes)
+ */
+const HEAD_OPEN_TAG = /<head(?:\s[^>]*)?>/i;
+
+/**
+ * Matches the opening <body> tag of a document (with or without attributes)
+ */
+const BODY_OPEN_TAG = /<body(?:\s[^>]*)?>/i;
+
+/**
+ * Split a document right after its opening <head> tag
+ *
+ * The first part (doctype, <html> and <head> opening tags) is identical in the
+ * template and in the rendered document, so routes with `earlyFlush` send the
+ * template's shell before Angular has finished rendering.
+ */
+export function splitDocumentShell(html: string): [shell: string, rest: string] {
+  const match = HEAD_OPEN_TAG.exec(html);
+  if (!match) {
+    return ['', html];
+  }
+  const end = match.index + match[0].length;
+  return [html.slice(0, end), html.slice(end)];
+}
+
+/**
+ * Split the remainder of a rendered document into its head and body parts
+ */
+function splitHeadAndBody(rest: string): string[] {
+  const match = BODY_OPEN_TAG.exec(rest);
+  if (!match) {
+    return [rest];
+  }
+  return [rest.slice(0, match.index), rest.slice(match.index)];
+}
+
+/**
+ * Create a stream sending a rendered document in chunks: the shell up to
+ * the opening <head> tag, the head, then the body
+ *
+ * The response status and headers are committed before the first chunk, so
+ * streams are only created once the render has settled and the page's
+ * status, headers and cookies are known.
+ */
+export function createDocumentStream(html: string): ReadableStream<Uint8Array> {
+  const [shell, rest] = splitDocumentShell(html);
+  const parts = [shell, ...splitHeadAndBody(rest)].filter((part) => part.length > 0);
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const part = parts.shift();
+      if (part === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(part));
+      }
+    },
+  });
+}
+
+/**
+ * Create a stream sending the template's shell right away, then the head and
+ * body of the rendered document once it is ready
+ *
+ * The response status and headers are committed with the shell, before the
+ * page is rendered. Use it for routes whose status and headers are fixed.
+ */
+export function createEarlyDocumentStream(
+  template: string,
+  rendered: Promise<string>
+): ReadableStream<Uint8Array> {
+  const [shell] = splitDocumentShell(template);
+  let parts: string[] | undefined;
+
+  // Failures surface when the rest is pulled
+  rendered.catch(() => undefined);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (shell) {
+        controller.enqueue(encoder.encode(shell));
+      }
+    },
+    async pull(controller) {
+      if (!parts) {
+        const html = await rendered;
+        const rest = shell ? splitDocumentShell(html)[1] : html;
+        parts = splitHeadAndBody(rest).filter((part) => part.length > 0);
+      }
+      const part = parts.shift();
+      if (part === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(part));
+      }
+    },
+  });
+}
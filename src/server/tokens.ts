@@ -0,0 +1,53 @@
+import { InjectionToken } from '@angular/core';
+import type { ServerResponseInit } from './response';
+import type { ServerHttpContext } from './http';
+
+/**
+ * Cache tags for the page being rendered
+ *
+ * Provided per render. Components and resolvers can add tags to the set so
+ * the cached page can later be purged with `engine.invalidate({ tags })`:
+ *
+ * ```typescript
+ * inject(CACHE_TAGS, { optional: true })?.add(`article:${id}`);
+ * ```
+ */
+export const CACHE_TAGS = new InjectionToken<Set<string>>('ngx-bun CACHE_TAGS');
+
+/**
+ * Response init for the page being rendered
+ *
+ * Provided per render. Components and resolvers can set the status code,
+ * headers and cookies of the response:
+ *
+ * ```typescript
+ * const response = inject(SERVER_RESPONSE, { optional: true });
+ * if (response) {
+ *   response.status = 404;
+ * }
+ * ```
+ *
+ * The same object is provided as Angular's `RESPONSE_INIT`, so code written
+ * for `@angular/ssr` works unchanged. Routes with `earlyFlush` commit the
+ * status and headers before rendering, so changes are ignored there.
+ */
+export const SERVER_RESPONSE = new InjectionToken<ServerResponseInit>('ngx-bun SERVER_RESPONSE');
+
+/**
+ * HTTP context for the page being rendered
+ *
+ * Provided per render when the engine has `http` options. Read by
+ * `serverHttpInterceptor` to resolve relative URLs, call in-process
+ * handlers and share cached responses.
+ */
+export const SERVER_HTTP_CONTEXT = new InjectionToken<ServerHttpContext>(
+  'ngx-bun SERVER_HTTP_CONTEXT'
+);
+
+/**
+ * W3C `traceparent` of the render span
+ *
+ * Provided per render when the request is traced. `serverHttpInterceptor`
+ * adds it to outgoing HttpClient requests so backends join the trace.
+ */
+export const TRACE_PARENT = new InjectionToken<string>('ngx-bun TRACE_PARENT');
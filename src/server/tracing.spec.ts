@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  OtlpHttpExporter,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+  type FinishedSpan,
+} from './tracing';
+
+const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+/**
+ * Create a tracer collecting exported spans in an array
+ */
+function createTracer(options: { sampleRate?: number; maxBatchSize?: number } = {}) {
+  const exported: FinishedSpan[] = [];
+  const tracer = new Tracer({
+    exporter: { export: (spans) => void exported.push(...spans) },
+    ...options,
+  });
+  return { tracer, exported };
+}
+
+describe('traceparent', () => {
+  it('should parse and format headers', () => {
+    const context = parseTraceparent(traceparent);
+    expect(context).toEqual({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      sampled: true,
+    });
+    expect(formatTraceparent(context!)).toBe(traceparent);
+  });
+
+  it('should reject invalid headers', () => {
+    expect(parseTraceparent(null)).toBeNull();
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent(`ff${traceparent.slice(2)}`)).toBeNull();
+    expect(parseTraceparent('00-00000000000000000000000000000000-b7ad6b7169203331-01')).toBeNull();
+  });
+});
+
+describe('Tracer', () => {
+  let tracer: Tracer;
+
+  afterEach(async () => {
+    await tracer.close();
+  });
+
+  it('should continue the parent trace and export ended spans', async () => {
+    const created = createTracer();
+    tracer = created.tracer;
+
+    const parent = parseTraceparent(traceparent);
+    await tracer.trace('render', { parent, attributes: { 'url.path': '/' } }, async () => 'ok');
+    await tracer.flush();
+
+    const [span] = created.exported;
+    expect(span.name).toBe('render');
+    expect(span.context.traceId).toBe(parent!.traceId);
+    expect(span.parentSpanId).toBe(parent!.spanId);
+    expect(span.attributes).toEqual({ 'url.path': '/' });
+    expect(span.status).toBe('ok');
+    expect(span.endTime).toBeGreaterThanOrEqual(span.startTime);
+  });
+
+  it('should record errors and rethrow them', async () => {
+    const created = createTracer();
+    tracer = created.tracer;
+
+    await expect(
+      tracer.trace('render', {}, async () => {
+        throw new TypeError('boom');
+      })
+    ).rejects.toThrow('boom');
+    await tracer.flush();
+
+    expect(created.exported[0]).toMatchObject({
+      status: 'error',
+      statusMessage: 'boom',
+      attributes: { 'exception.type': 'TypeError' },
+    });
+  });
+
+  it('should not export spans of unsampled traces', async () => {
+    const created = createTracer({ sampleRate: 0 });
+    tracer = created.tracer;
+
+    const span = tracer.startSpan('request');
+    const child = tracer.startSpan('render', { parent: span.context });
+    child.end();
+    span.end();
+    await tracer.flush();
+
+    expect(child.context.traceId).toBe(span.context.traceId);
+    expect(child.traceparent.endsWith('-00')).toBe(true);
+    expect(created.exported).toHaveLength(0);
+  });
+
+  it('should export once a batch is full', async () => {
+    const created = createTracer({ maxBatchSize: 2 });
+    tracer = created.tracer;
+
+    tracer.startSpan('a').end();
+    expect(created.exported).toHaveLength(0);
+    tracer.startSpan('b').end();
+    await Promise.resolve();
+    expect(created.exported.map((span) => span.name)).toEqual(['a', 'b']);
+  });
+});
+
+describe('OtlpHttpExporter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post spans as OTLP JSON', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+    const exporter = new OtlpHttpExporter({
+      url: 'http://collector:4318/v1/traces',
+      headers: { 'X-Api-Key': 'secret' },
+      serviceName: 'storefront',
+    });
+
+    await exporter.export([
+      {
+        name: 'GET /products/:id',
+        kind: 'server',
+        context: { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: true },
+        startTime: 1_700_000_000_000.5,
+        endTime: 1_700_000_000_010,
+        attributes: { 'http.response.status_code': 200, cached: false },
+        status: 'ok',
+      },
+    ]);
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://collector:4318/v1/traces');
+    expect(init.headers).toMatchObject({ 'X-Api-Key': 'secret' });
+
+    const body = JSON.parse(init.body as string);
+    const resource = body.resourceSpans[0].resource.attributes;
+    expect(resource).toContainEqual({ key: 'service.name', value: { stringValue: 'storefront' } });
+
+    const span = body.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(span).toMatchObject({
+      traceId: 'a'.repeat(32),
+      kind: 2,
+      startTimeUnixNano: '1700000000000500000',
+      endTimeUnixNano: '1700000000010000000',
+      status: { code: 1 },
+    });
+    expect(span.attributes).toContainEqual({
+      key: 'http.response.status_code',
+      value: { intValue: '200' },
+    });
+  });
+
+  it('should fail when the collector rejects the spans', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 503 })));
+    await expect(new OtlpHttpExporter().export([])).rejects.toThrow('503');
+  });
+});
@@ -0,0 +1,429 @@
+import { randomBytes } from 'node:crypto';
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Identity of a span, propagated in W3C `traceparent` headers
+ */
+export interface SpanContext {
+  /**
+   * 32 hex digit trace id
+   */
+  traceId: string;
+
+  /**
+   * 16 hex digit span id
+   */
+  spanId: string;
+
+  /**
+   * Whether the trace is sampled (recorded and exported)
+   */
+  sampled: boolean;
+}
+
+/**
+ * Role of a span in a trace
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+/**
+ * Attribute values attached to spans
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span as handed to exporters once it has ended
+ */
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId?: string;
+  /**
+   * Start and end times in milliseconds since the Unix epoch
+   */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+}
+
+/**
+ * Receives batches of finished spans
+ */
+export interface SpanExporter {
+  export(spans: FinishedSpan[]): void | Promise<void>;
+}
+
+/**
+ * Tracing options
+ */
+export interface TracingOptions {
+  /**
+   * Exporter receiving finished spans
+   */
+  exporter: SpanExporter;
+
+  /**
+   * Fraction of new traces to record. Incoming `traceparent` headers decide
+   * for the traces they continue.
+   * @default 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Maximum number of spans buffered before they are exported
+   * @default 512
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Interval in milliseconds at which buffered spans are exported
+   * @default 5000
+   */
+  flushInterval?: number;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  /**
+   * Parent span; a new trace is started without one
+   */
+  parent?: SpanContext | null;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+
+/**
+ * Parse a W3C `traceparent` header, or return null if it is missing or invalid
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = TRACEPARENT_PATTERN.exec(header?.trim().toLowerCase() ?? '');
+  if (!match) return null;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid; version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return null;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Current time in milliseconds since the Unix epoch, with sub-millisecond
+ * precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Span - A timed operation within a trace
+ *
+ * Spans of unsampled traces are not recorded, but still carry their
+ * context so it can be propagated.
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly attributes: SpanAttributes = {};
+  private readonly startTime = now();
+  private status: FinishedSpan['status'] = 'unset';
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    public name: string,
+    private readonly kind: SpanKind,
+    context: SpanContext,
+    private readonly parentSpanId: string | undefined,
+    private readonly onEnd: (span: FinishedSpan) => void
+  ) {
+    this.context = context;
+  }
+
+  /**
+   * Whether the span is recorded
+   */
+  get isRecording(): boolean {
+    return this.context.sampled && !this.ended;
+  }
+
+  /**
+   * The W3C `traceparent` header of this span
+   */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  /**
+   * Set an attribute
+   */
+  setAttribute(name: string, value: string | number | boolean): this {
+    this.attributes[name] = value;
+    return this;
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  recordError(error: unknown): this {
+    this.status = 'error';
+    this.statusMessage = error instanceof Error ? error.message : String(error);
+    if (error instanceof Error) {
+      this.attributes['exception.type'] = error.name;
+    }
+    return this;
+  }
+
+  /**
+   * Mark the span as successful
+   */
+  setOk(): this {
+    if (this.status === 'unset') this.status = 'ok';
+    return this;
+  }
+
+  /**
+   * End the span and hand it to the exporter if it is recorded
+   */
+  end(): void {
+    if (!this.isRecording) return;
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime: now(),
+      attributes: { ...this.attributes },
+      status: this.status,
+      statusMessage: this.statusMessage,
+    });
+  }
+}
+
+/**
+ * Tracer - Creates spans and exports them in batches
+ */
+export class Tracer {
+  private readonly exporter: SpanExporter;
+  private readonly sampleRate: number;
+  private readonly maxBatchSize: number;
+  private readonly timer: ReturnType<typeof setInterval>;
+  private buffer: FinishedSpan[] = [];
+
+  /**
+   * @param logger - Logger for failed exports
+   */
+  constructor(
+    options: TracingOptions,
+    private readonly logger: Logger = createLogger({ name: 'Tracer' })
+  ) {
+    this.exporter = options.exporter;
+    this.sampleRate = options.sampleRate ?? 1;
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.timer = setInterval(() => void this.flush(), options.flushInterval ?? 5000);
+    // Don't keep the process alive for tracing alone
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Start a span, continuing the parent's trace if there is one
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const { parent } = options;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent ? parent.sampled : Math.random() < this.sampleRate,
+    };
+    const span = new Span(name, options.kind ?? 'internal', context, parent?.spanId, (finished) =>
+      this.enqueue(finished)
+    );
+    for (const [key, value] of Object.entries(options.attributes ?? {})) {
+      span.setAttribute(key, value);
+    }
+    return span;
+  }
+
+  /**
+   * Run a function in a span, ending it when the function settles and
+   * recording thrown errors
+   */
+  async trace<T>(
+    name: string,
+    options: StartSpanOptions,
+    fn: (span: Span) => T | Promise<T>
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      const result = await fn(span);
+      span.setOk();
+      return result;
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export buffered spans
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      await this.exporter.export(spans);
+    } catch (error) {
+      this.logger.error('Span export failed', { error });
+    }
+  }
+
+  /**
+   * Stop the export timer and export buffered spans
+   */
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  /**
+   * Buffer a finished span, exporting once the batch is full
+   */
+  private enqueue(span: FinishedSpan): void {
+    this.buffer.push(span);
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+}
+
+/**
+ * Options for the OTLP exporter
+ */
+export interface OtlpHttpExporterOptions {
+  /**
+   * OTLP/HTTP traces endpoint
+   * @default 'http://localhost:4318/v1/traces'
+   */
+  url?: string;
+
+  /**
+   * Additional request headers (such as an API key)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Service name reported with the spans
+   * @default 'ngx-bun'
+   */
+  serviceName?: string;
+
+  /**
+   * Additional resource attributes
+   */
+  resourceAttributes?: SpanAttributes;
+}
+
+// OTLP span kind and status codes
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE: Record<FinishedSpan['status'], number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Convert attributes to OTLP key-value pairs
+ */
+function toOtlpAttributes(attributes: SpanAttributes): unknown[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'boolean'
+        ? { boolValue: value }
+        : typeof value === 'number'
+          ? Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value }
+          : { stringValue: value },
+  }));
+}
+
+/**
+ * Convert milliseconds since the epoch to OTLP nanoseconds
+ */
+function toUnixNano(time: number): string {
+  return (BigInt(Math.floor(time)) * 1_000_000n + BigInt(Math.round((time % 1) * 1e6))).toString();
+}
+
+/**
+ * OtlpHttpExporter - Sends spans to an OpenTelemetry collector using
+ * OTLP/HTTP with JSON encoding
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly resource: SpanAttributes;
+
+  constructor(options: OtlpHttpExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.resource = {
+      'service.name': options.serviceName ?? 'ngx-bun',
+      ...options.resourceAttributes,
+    };
+  }
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.toPayload(spans)),
+    });
+    if (!response.ok) {
+      throw new Error(`Collector responded with ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Build the OTLP export request body
+   */
+  toPayload(spans: FinishedSpan[]): unknown {
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: toOtlpAttributes(this.resource) },
+          scopeSpans: [
+            {
+              scope: { name: '@pegasusheavy/ngx-bun' },
+              spans: spans.map((span) => ({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime),
+                attributes: toOtlpAttributes(span.attributes),
+                status: { code: OTLP_STATUS_CODE[span.status], message: span.statusMessage },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
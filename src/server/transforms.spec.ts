@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransforms, injectSnippet, minifyHtml, rewriteAssetUrls } from './transforms';
+
+const context = { url: new URL('http://localhost/'), status: 200 };
+const page = `<html><head><title>Shop</title></head><body><app-root></app-root></body></html>`;
+
+describe('applyTransforms', () => {
+  it('should run transforms in order', async () => {
+    const html = await applyTransforms('a', [(h) => `${h}b`, async (h) => `${h}c`], context);
+    expect(html).toBe('abc');
+  });
+});
+
+describe('injectSnippet', () => {
+  it('should append the snippet to the head by default', async () => {
+    const html = await injectSnippet('<script>track()</script>')(page, context);
+    expect(html).toContain('<title>Shop</title><script>track()</script></head>');
+  });
+
+  it('should append the snippet to the body', async () => {
+    const html = await injectSnippet('<div id="chat"></div>', 'body')(page, context);
+    expect(html).toContain('<app-root></app-root><div id="chat"></div></body>');
+  });
+});
+
+describe('rewriteAssetUrls', () => {
+  const rewrite = rewriteAssetUrls('https://cdn.example/shop/');
+
+  it('should rewrite local asset URLs', async () => {
+    const html = await rewrite(
+      [
+        '<link rel="stylesheet" href="styles.css">',
+        '<script src="/main.js" type="module"></script>',
+        `<img src='./assets/logo.png' srcset="a.png 1x, /b.png 2x">`,
+      ].join(''),
+      context
+    );
+    expect(html).toContain('href="https://cdn.example/shop/styles.css"');
+    expect(html).toContain('src="https://cdn.example/shop/main.js"');
+    expect(html).toContain(`src='https://cdn.example/shop/assets/logo.png'`);
+    expect(html).toContain(
+      'srcset="https://cdn.example/shop/a.png 1x, https://cdn.example/shop/b.png 2x"'
+    );
+  });
+
+  it('should leave page links and absolute URLs alone', async () => {
+    const html = [
+      '<link rel="canonical" href="/about">',
+      '<a href="/about">About</a>',
+      '<script src="https://other.example/x.js"></script>',
+      '<img src="data:image/png;base64,AAAA">',
+    ].join('');
+    expect(await rewrite(html, context)).toBe(html);
+  });
+});
+
+describe('minifyHtml', () => {
+  it('should remove comments and collapse whitespace', () => {
+    expect(minifyHtml('<div>\n  <!-- note -->\n  <p>Hi   there</p>\n</div>\n')).toBe(
+      '<div><p>Hi there</p></div>'
+    );
+  });
+});
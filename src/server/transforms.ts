@@ -0,0 +1,189 @@
+/**
+ * Context passed to HTML transforms
+ */
+export interface HtmlTransformContext {
+  /**
+   * URL of the rendered page
+   */
+  url: URL;
+
+  /**
+   * Original request object (if available)
+   */
+  request?: Request;
+
+  /**
+   * Status code of the rendered page
+   */
+  status: number;
+
+  /**
+   * CSP nonce of the page (when `csp` is configured), for scripts and
+   * styles added by the transform
+   */
+  nonce?: string;
+}
+
+/**
+ * Hook post-processing rendered HTML before it is cached
+ */
+export type HtmlTransform = (
+  html: string,
+  context: HtmlTransformContext
+) => string | Promise<string>;
+
+// Elements and attributes holding asset URLs
+const ASSET_TAG_PATTERN = /<(script|link|img|source|video|audio)\b[^>]*>/gi;
+const ASSET_ATTRIBUTE_PATTERN = /(\s(src|href|srcset|poster)\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi;
+const ASSET_SELECTORS = [
+  'script[src]',
+  'link[href]',
+  'img[src]',
+  'img[srcset]',
+  'source[src]',
+  'source[srcset]',
+  'video[src]',
+  'video[poster]',
+  'audio[src]',
+];
+
+// Link relations pointing at assets (not at other pages)
+const ASSET_LINK_RELS = new Set([
+  'stylesheet',
+  'preload',
+  'modulepreload',
+  'prefetch',
+  'icon',
+  'apple-touch-icon',
+  'manifest',
+]);
+
+/**
+ * Whether Bun's streaming HTMLRewriter is available
+ */
+function hasHtmlRewriter(): boolean {
+  return typeof HTMLRewriter !== 'undefined';
+}
+
+/**
+ * Run HTML transforms in order
+ */
+export async function applyTransforms(
+  html: string,
+  transforms: HtmlTransform[],
+  context: HtmlTransformContext
+): Promise<string> {
+  for (const transform of transforms) {
+    html = await transform(html, context);
+  }
+  return html;
+}
+
+/**
+ * Simple HTML minification
+ */
+export function minifyHtml(html: string): string {
+  return html
+    .replace(/<!--(?!<!)[^\[>].*?-->/gs, '') // Remove comments
+    .replace(/\s+/g, ' ') // Collapse whitespace
+    .replace(/>\s+</g, '><') // Remove whitespace between tags
+    .trim();
+}
+
+/**
+ * Insert an HTML snippet (such as an analytics script) at the end of the
+ * document head or body
+ */
+export function injectSnippet(snippet: string, position: 'head' | 'body' = 'head'): HtmlTransform {
+  return (html) => {
+    if (hasHtmlRewriter()) {
+      return new HTMLRewriter()
+        .on(position, {
+          element(element) {
+            element.append(snippet, { html: true });
+          },
+        })
+        .transform(html);
+    }
+
+    const closingTag = html.toLowerCase().lastIndexOf(`</${position}>`);
+    if (closingTag === -1) return html;
+    return html.slice(0, closingTag) + snippet + html.slice(closingTag);
+  };
+}
+
+/**
+ * Point a local asset URL at another origin
+ */
+function toOriginUrl(value: string, origin: string): string {
+  if (/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(value.trim())) {
+    return value;
+  }
+  return `${origin.replace(/\/+$/, '')}/${value.trim().replace(/^(\.?\/)+/, '')}`;
+}
+
+/**
+ * Rewrite an attribute value, handling srcset candidate lists
+ */
+function rewriteAttribute(name: string, value: string, origin: string): string {
+  if (name.toLowerCase() !== 'srcset') {
+    return toOriginUrl(value, origin);
+  }
+  return value
+    .split(',')
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return [toOriginUrl(url, origin), ...descriptors].join(' ');
+    })
+    .join(', ');
+}
+
+/**
+ * Whether a <link> points at an asset
+ */
+function isAssetLink(rel: string | null): boolean {
+  return (rel ?? '').toLowerCase().split(/\s+/).some((r) => ASSET_LINK_RELS.has(r));
+}
+
+/**
+ * Rewrite local script, stylesheet, image and media URLs to a CDN origin
+ *
+ * Relative URLs are resolved against the site root, matching Angular's
+ * default `<base href="/">`. Links to other pages and absolute URLs are
+ * left alone.
+ */
+export function rewriteAssetUrls(origin: string): HtmlTransform {
+  return (html) => {
+    if (hasHtmlRewriter()) {
+      const rewriter = new HTMLRewriter();
+      for (const selector of ASSET_SELECTORS) {
+        const attribute = selector.slice(selector.indexOf('[') + 1, -1);
+        rewriter.on(selector, {
+          element(element) {
+            if (element.tagName === 'link' && !isAssetLink(element.getAttribute('rel'))) return;
+            const value = element.getAttribute(attribute);
+            if (value !== null) {
+              element.setAttribute(attribute, rewriteAttribute(attribute, value, origin));
+            }
+          },
+        });
+      }
+      return rewriter.transform(html);
+    }
+
+    return html.replace(ASSET_TAG_PATTERN, (tag, name: string) => {
+      if (name.toLowerCase() === 'link') {
+        const rel = /\srel\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(tag);
+        if (!isAssetLink(rel ? (rel[1] ?? rel[2] ?? rel[3]) : null)) return tag;
+      }
+      return tag.replace(
+        ASSET_ATTRIBUTE_PATTERN,
+        (_match, prefix: string, attribute: string, double?: string, single?: string) => {
+          const quote = double !== undefined ? '"' : "'";
+          const value = rewriteAttribute(attribute, double ?? single ?? '', origin);
+          return `${prefix}${quote}${value}${quote}`;
+        }
+      );
+    });
+  };
+}
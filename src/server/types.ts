@@ -1,4 +1,13 @@
 import type { Type, StaticProvider } from '@angular/core';
+import type { CacheKeyFunction, CacheVaryOptions } from './cache-key';
+import type { RenderWorkerPoolOptions } from './worker-pool';
+import type { ServerHttpOptions } from './http';
+import type { HtmlTransform } from './transforms';
+import type { CspOptions } from './csp';
+import type { ErrorPageRenderer } from './error-page';
+import type { MetricsRegistry } from './metrics';
+import type { TracingOptions } from './tracing';
+import type { Logger } from './logger';
 
 /**
  * Configuration options for the BunAngularEngine
@@ -37,15 +46,205 @@ export interface BunAngularEngineOptions {
 
   /**
    * Maximum number of entries in the render cache
+   * (only used by the default in-memory store)
    * @default 100
    */
   maxCacheSize?: number;
 
+  /**
+   * Store used for the render cache
+   * @default MemoryCacheStore (in-memory LRU)
+   */
+  cacheStore?: CacheStore<CacheEntry>;
+
+  /**
+   * Custom cache key function (replaces `varyBy` and `authCookies`).
+   * Return `null` to skip the cache for a request.
+   */
+  cacheKey?: CacheKeyFunction;
+
+  /**
+   * Request headers, cookies, query parameters and device class the
+   * render cache varies on. By default pages are keyed on pathname and
+   * query string only.
+   */
+  varyBy?: CacheVaryOptions;
+
+  /**
+   * Cookies that mark a request as authenticated; such requests (and any
+   * request with an Authorization header) skip the cache
+   * @default DEFAULT_AUTH_COOKIES
+   */
+  authCookies?: string[];
+
+  /**
+   * Cache tags to attach to a rendered page, in addition to tags added
+   * through the CACHE_TAGS token during rendering
+   */
+  getCacheTags?: (url: URL, request?: Request) => string[];
+
+  /**
+   * Status codes of rendered pages that may be cached
+   * @default every status below 400
+   */
+  cacheableStatuses?: number[];
+
+  /**
+   * Status code used when the Angular router ends on a different URL than
+   * the requested one (guards returning a UrlTree, `redirectTo` routes)
+   * @default 302
+   */
+  redirectStatus?: RedirectStatus;
+
   /**
    * Cache TTL in milliseconds
    * @default 300000 (5 minutes)
    */
   cacheTtl?: number;
+
+  /**
+   * Time in milliseconds after `cacheTtl` during which an expired page is
+   * served immediately while it is re-rendered in the background
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Time in milliseconds after `cacheTtl` during which an expired page is
+   * served if re-rendering it fails
+   * @default 0
+   */
+  staleIfError?: number;
+
+  /**
+   * Send rendered pages as a ReadableStream of the shell, head and body
+   * instead of a single string. The stream starts once the render has
+   * settled, so statuses, headers, cookies and redirects set during
+   * rendering apply, but the first byte is not sent any sooner; see
+   * `earlyFlush` for that. Cached pages are stored as complete documents.
+   * @default false
+   */
+  streaming?: boolean;
+
+  /**
+   * Maximum time in milliseconds a render may take. When exceeded, the
+   * render is aborted and the unrendered index.html is served so the
+   * application bootstraps in the browser.
+   */
+  renderTimeout?: number;
+
+  /**
+   * Serve the unrendered index.html instead of the error page when a
+   * render fails
+   * @default false
+   */
+  csrFallbackOnError?: boolean;
+
+  /**
+   * Render in a pool of Bun Workers instead of on the main thread. The
+   * worker script must call `startRenderWorker()` with the application's
+   * bootstrap. Caching stays on the main thread.
+   */
+  workers?: RenderWorkerPoolOptions;
+
+  /**
+   * Maximum number of renders running at once
+   * @default unlimited
+   */
+  maxConcurrentRenders?: number;
+
+  /**
+   * Maximum number of renders waiting for a slot when
+   * `maxConcurrentRenders` is reached. Further requests are shed.
+   * @default unbounded
+   */
+  maxQueueLength?: number;
+
+  /**
+   * Response for shed requests without a stale page to serve: the
+   * unrendered index.html, or a 503 with Retry-After
+   * @default 'unavailable'
+   */
+  overloadFallback?: 'shell' | 'unavailable';
+
+  /**
+   * Retry-After value in seconds for 503 responses to shed requests
+   * @default 5
+   */
+  retryAfter?: number;
+
+  /**
+   * HttpClient calls made while rendering: relative URL resolution,
+   * in-process handlers and a shared response cache. Requires
+   * `serverHttpInterceptor` in the application's server config.
+   */
+  http?: ServerHttpOptions;
+
+  /**
+   * Inline the CSS rules used by each rendered page and load stylesheets
+   * from `browserDistFolder` asynchronously. Applied before caching.
+   * @default false
+   */
+  inlineCriticalCss?: boolean;
+
+  /**
+   * Hooks post-processing rendered HTML, run in order before caching
+   */
+  transforms?: HtmlTransform[];
+
+  /**
+   * Generate a nonce per response, provide it through Angular's
+   * `CSP_NONCE`, stamp it onto the template's own tags and send a
+   * Content-Security-Policy header containing it
+   */
+  csp?: CspOptions;
+
+  /**
+   * Show render errors with their stack trace, mapped to the original
+   * sources, on the error page. Never enable it in production.
+   * @default false
+   */
+  development?: boolean;
+
+  /**
+   * Render the error page served in production. Without it, `500.html` from
+   * `browserDistFolder` is served if it exists.
+   */
+  errorPage?: ErrorPageRenderer;
+
+  /**
+   * Registry the engine records its metrics in, to share it with
+   * application metrics
+   * @default a new MetricsRegistry
+   */
+  metrics?: MetricsRegistry;
+
+  /**
+   * Report `ngx_bun_cache_entries` for cache stores other than the
+   * in-memory one. Counting lists every key of the store (a SCAN on Redis)
+   * on each scrape.
+   * @default false
+   */
+  cacheSizeMetric?: boolean;
+
+  /**
+   * Record spans for cache lookups, renders, Angular bootstrap and HTML
+   * transforms, continuing incoming `traceparent` headers
+   */
+  tracing?: TracingOptions;
+
+  /**
+   * Logger for render errors, cache failures and load shedding
+   * @default createLogger({ name: 'BunAngularEngine' })
+   */
+  logger?: Logger;
+
+  /**
+   * Locale of the build this engine serves (such as `de` for a
+   * `browser/de` localize build). It is added to cache keys, so engines
+   * can share a cache store, and to the labels of per-engine metrics.
+   */
+  locale?: string;
 }
 
 /**
@@ -58,10 +257,20 @@ export interface RenderOptions {
   url: string;
 
   /**
-   * Original request object (if available)
+   * Original request object (if available), provided to the application
+   * through Angular's `REQUEST` token
    */
   request?: Request;
 
+  /**
+   * Request context provided to the application through Angular's
+   * `REQUEST_CONTEXT` token. It is not part of the cache key, so use
+   * `varyBy` or `cacheKey` when it changes the rendered page. With `workers`
+   * it is posted to the render worker, so it must be structured-cloneable
+   * (no functions or class instances); otherwise the render fails.
+   */
+  requestContext?: unknown;
+
   /**
    * Additional providers for this specific render
    */
@@ -77,6 +286,58 @@ export interface RenderOptions {
    * @default false
    */
   skipCache?: boolean;
+
+  /**
+   * Render even if the page is cached, replacing the cache entry
+   * @default false
+   */
+  refreshCache?: boolean;
+
+  /**
+   * Whether to stream this render (overrides the engine's `streaming` option)
+   */
+  stream?: boolean;
+
+  /**
+   * Stream the template's shell before rendering. The response is committed
+   * as a 200 with the default headers, so statuses, headers, cookies and
+   * redirects set during rendering are ignored, and failed renders stream
+   * their fallback after the shell. Cache hits are unaffected.
+   * @default false
+   */
+  earlyFlush?: boolean;
+
+  /**
+   * Cache tags to attach to the rendered page
+   */
+  cacheTags?: string[];
+
+  /**
+   * Cache TTL in milliseconds for this page (overrides the engine's `cacheTtl`)
+   */
+  cacheTtl?: number;
+
+  /**
+   * Status code for router redirects (overrides the engine's `redirectStatus`)
+   */
+  redirectStatus?: RedirectStatus;
+
+  /**
+   * Render timeout in milliseconds (overrides the engine's `renderTimeout`)
+   */
+  renderTimeout?: number;
+
+  /**
+   * CSP nonce provided to the application through Angular's `CSP_NONCE`.
+   * Set by the engine when `csp` is configured.
+   */
+  nonce?: string;
+
+  /**
+   * W3C `traceparent` of the span the render belongs to. Defaults to the
+   * request's `traceparent` header when tracing is enabled.
+   */
+  traceparent?: string;
 }
 
 /**
@@ -84,10 +345,15 @@ export interface RenderOptions {
  */
 export interface RenderResult {
   /**
-   * The rendered HTML string
+   * The rendered HTML string (empty when the result is streamed)
    */
   html: string;
 
+  /**
+   * The rendered document as a stream, set for streamed renders
+   */
+  stream?: ReadableStream<Uint8Array>;
+
   /**
    * HTTP status code
    */
@@ -98,28 +364,65 @@ export interface RenderResult {
    */
   headers: Record<string, string>;
 
+  /**
+   * Set-Cookie header values set during rendering
+   */
+  cookies?: string[];
+
+  /**
+   * CSP nonce stamped onto the document (when `csp` is configured)
+   */
+  nonce?: string;
+
   /**
    * Whether the result was served from cache
    */
   fromCache: boolean;
 
+  /**
+   * How the render cache was used for this result
+   */
+  cacheStatus: CacheStatus;
+
   /**
    * Render duration in milliseconds
    */
   renderTime: number;
 }
 
+/**
+ * Render cache state of a result
+ *
+ * - `HIT`: served from a fresh cache entry
+ * - `STALE`: served from an expired entry (while revalidating or after an error)
+ * - `MISS`: rendered and stored in the cache
+ * - `BYPASS`: rendered without using the cache
+ */
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+/**
+ * HTTP status codes used for redirects
+ */
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
 /**
  * Route configuration for SSR/SSG
+ *
+ * Used by the request handler (`routes`) to decide how each request is
+ * served, and by `prerenderRoutes` to find the routes to generate.
  */
 export interface RouteConfig {
   /**
-   * The route path
+   * The route path. `:param` and `*` match one segment, `**` matches
+   * any number of segments.
    */
   path: string;
 
   /**
    * Render mode for this route
+   * - `server`: rendered on each request
+   * - `client`: served as the unrendered index.html
+   * - `prerender`: served from prerendered HTML, falling back to SSR
    */
   renderMode: 'server' | 'client' | 'prerender';
 
@@ -137,6 +440,41 @@ export interface RouteConfig {
    * Status code for this route
    */
   status?: number;
+
+  /**
+   * Cache TTL in milliseconds for pages rendered on this route
+   * (overrides the engine's `cacheTtl`)
+   */
+  cacheTtl?: number;
+
+  /**
+   * Set to false to never cache pages rendered on this route
+   * @default true
+   */
+  cache?: boolean;
+
+  /**
+   * Cache tags attached to pages rendered on this route
+   */
+  cacheTags?: string[];
+
+  /**
+   * Status code for router redirects starting on this route
+   */
+  redirectStatus?: RedirectStatus;
+
+  /**
+   * Render timeout in milliseconds for this route
+   */
+  renderTimeout?: number;
+
+  /**
+   * Flush the document shell before rendering pages on this route. Only for
+   * routes that always respond with a 200 and fixed headers: statuses,
+   * headers, cookies and redirects set during rendering are ignored.
+   * @default false
+   */
+  earlyFlush?: boolean;
 }
 
 /**
@@ -148,4 +486,78 @@ export interface CacheEntry {
   headers: Record<string, string>;
   timestamp: number;
   expiresAt: number;
+  /**
+   * Pathname of the cached page
+   */
+  path?: string;
+  /**
+   * Tags used for targeted invalidation
+   */
+  tags?: string[];
+  /**
+   * CSP nonce the page was rendered with, swapped for each response's own
+   */
+  nonce?: string;
+}
+
+/**
+ * Criteria for invalidating cached pages
+ *
+ * An entry is removed when it matches any of the given criteria.
+ */
+export interface InvalidateOptions {
+  /**
+   * Remove entries carrying any of these tags
+   */
+  tags?: string[];
+
+  /**
+   * Remove entries for these exact pathnames
+   */
+  paths?: string[];
+
+  /**
+   * Remove entries whose pathname starts with this prefix
+   */
+  prefix?: string;
+}
+
+/**
+ * Asynchronous key-value store used for the render cache
+ *
+ * Implementations may be backed by memory, disk or a remote service. Values
+ * written with a TTL should no longer be returned once it has elapsed.
+ */
+export interface CacheStore<T = CacheEntry> {
+  /**
+   * Get an entry, or undefined if it is missing or expired
+   */
+  get(key: string): Promise<T | undefined>;
+
+  /**
+   * Store an entry, optionally expiring after `ttl` milliseconds
+   */
+  set(key: string, value: T, ttl?: number): Promise<void>;
+
+  /**
+   * Delete an entry, resolving to whether it existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Remove all entries
+   */
+  clear(): Promise<void>;
+
+  /**
+   * List the keys of all stored entries
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Get several entries at once, in the order of `keys`, without counting
+   * as a use of them. Scans of the store, such as invalidation, use it when
+   * available and fall back to `get` otherwise.
+   */
+  getMany?(keys: string[]): Promise<(T | undefined)[]>;
 }
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheWarmer, parseSitemap, type WarmupContext, type WarmupOptions } from './warmup';
+import { createRouteMatcher } from './routes';
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+
+function setup(
+  options: WarmupOptions,
+  render = vi.fn().mockResolvedValue({ status: 200 }),
+  context?: WarmupContext
+) {
+  const engine = { render } as unknown as BunAngularEngine;
+  const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { render, logger, warmer: new CacheWarmer(engine, options, logger, context) };
+}
+
+describe('parseSitemap', () => {
+  it('should extract paths and query strings from loc elements', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>https://example.com/</loc>
+  </url>
+  <url><loc> https://example.com/search?q=a&amp;page=2 </loc></url>
+</urlset>`;
+
+    expect(parseSitemap(xml)).toEqual(['/', '/search?q=a&page=2']);
+  });
+});
+
+describe('CacheWarmer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should combine and dedupe URLs from a function and a sitemap', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ngx-bun-warmup-'));
+    try {
+      const sitemap = join(dir, 'sitemap.xml');
+      await writeFile(sitemap, '<urlset><url><loc>https://example.com/about</loc></url></urlset>');
+      const { warmer } = setup({ urls: async () => ['/', '/about'], sitemap });
+
+      expect(await warmer.resolveUrls()).toEqual(['/', '/about']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should render with bounded concurrency and report failures', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const render = vi.fn(async ({ url }: { url: string }) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await Promise.resolve();
+      active--;
+      if (url === '/broken') throw new Error('boom');
+      return { status: url === '/error' ? 500 : 200 };
+    });
+    const { warmer, logger } = setup(
+      { urls: ['/', '/a', '/b', '/broken', '/error'], concurrency: 2 },
+      render
+    );
+
+    const result = await warmer.warm();
+
+    expect(maxActive).toBe(2);
+    expect(render).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/', refreshCache: false, stream: false })
+    );
+    expect(result.failed.sort()).toEqual(['/broken', '/error']);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should render with a request and the route config like the handler', async () => {
+    const matchRoute = createRouteMatcher([
+      { path: '/blog/**', renderMode: 'server', cacheTtl: 5000, cacheTags: ['blog'] },
+      { path: '/account/**', renderMode: 'server', cache: false },
+      { path: '/app/**', renderMode: 'client' },
+    ]);
+    const { warmer, render } = setup(
+      { urls: ['/blog/post?page=2', '/account/orders', '/app/editor', '/about'] },
+      undefined,
+      { origin: 'https://example.com', matchRoute }
+    );
+
+    const result = await warmer.warm();
+
+    expect(result.urls).toEqual(['/blog/post?page=2', '/about']);
+    const [blog] = render.mock.calls[0];
+    expect(blog).toMatchObject({ url: '/blog/post?page=2', cacheTtl: 5000, cacheTags: ['blog'] });
+    expect(blog.request.url).toBe('https://example.com/blog/post?page=2');
+    expect(blog.request.method).toBe('GET');
+    expect(render.mock.calls[1][0]).toMatchObject({ url: '/about', skipCache: false });
+  });
+
+  it('should share a run in progress', async () => {
+    const { warmer, render } = setup({ urls: ['/'] });
+
+    await Promise.all([warmer.warm(), warmer.warm()]);
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-warm on the interval, refreshing cached pages', async () => {
+    vi.useFakeTimers();
+    const { warmer, render } = setup({ urls: ['/'], interval: 1000 });
+
+    await warmer.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    warmer.stop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(render.mock.calls.map(([options]) => options.refreshCache)).toEqual([false, true]);
+  });
+});
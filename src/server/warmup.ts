@@ -0,0 +1,243 @@
+import { readFile } from 'node:fs/promises';
+import type { BunAngularEngine } from './engine';
+import type { Logger } from './logger';
+import { getRouteRenderOptions, type RouteMatcher } from './routes';
+
+/**
+ * Cache warmup options
+ */
+export interface WarmupOptions {
+  /**
+   * URLs to render, or a function returning them
+   */
+  urls?: string[] | (() => string[] | Promise<string[]>);
+
+  /**
+   * Path of a sitemap.xml (such as the one written by `prerenderRoutes`)
+   * whose `<loc>` URLs are rendered
+   */
+  sitemap?: string;
+
+  /**
+   * Maximum number of warmup renders running at once
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Re-render the URLs every this many milliseconds, replacing their cache
+   * entries. Set it below the cache TTL to keep the pages from expiring.
+   */
+  interval?: number;
+}
+
+/**
+ * How the server handles requests, so warmup renders produce the cache
+ * entries real requests look up
+ */
+export interface WarmupContext {
+  /**
+   * Origin of the synthetic requests warmup renders are given
+   * @default 'http://localhost'
+   */
+  origin?: string;
+
+  /**
+   * Route configs of the request handler, matched against the warmup
+   * URLs' pathnames
+   */
+  matchRoute?: RouteMatcher;
+}
+
+/**
+ * Outcome of a warmup run
+ */
+export interface WarmupResult {
+  /**
+   * URLs rendered
+   */
+  urls: string[];
+
+  /**
+   * URLs whose render failed or responded with a server error
+   */
+  failed: string[];
+
+  /**
+   * Duration of the run in milliseconds
+   */
+  duration: number;
+}
+
+/**
+ * Extract the `<loc>` URLs of a sitemap as paths with query strings
+ */
+export function parseSitemap(xml: string): string[] {
+  const paths: string[] = [];
+  for (const [, loc] of xml.matchAll(/<loc>\s*([^<]*?)\s*<\/loc>/g)) {
+    const href = loc
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+    try {
+      const url = new URL(href, 'http://localhost');
+      paths.push(url.pathname + url.search);
+    } catch {
+      // Skip invalid URLs
+    }
+  }
+  return paths;
+}
+
+/**
+ * Chunk an array into smaller arrays
+ */
+function chunk<T>(array: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    chunks.push(array.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * CacheWarmer - Renders a list of URLs into the engine's cache
+ *
+ * The first run renders pages that are not cached yet; runs on the
+ * `interval` re-render every page so cached entries are replaced before
+ * they expire. Runs never overlap.
+ *
+ * Each URL is rendered with a synthetic GET request and the options of its
+ * route config, like the request handler does. URLs of routes that are not
+ * rendered on the server or not cached are skipped.
+ */
+export class CacheWarmer {
+  private readonly concurrency: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<WarmupResult> | null = null;
+
+  constructor(
+    private readonly engine: Pick<BunAngularEngine, 'render'>,
+    private readonly options: WarmupOptions,
+    private readonly logger: Logger,
+    private readonly context: WarmupContext = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+  }
+
+  /**
+   * Collect the URLs from the configured list, function and sitemap
+   */
+  async resolveUrls(): Promise<string[]> {
+    const { urls = [], sitemap } = this.options;
+    const resolved = typeof urls === 'function' ? await urls() : urls;
+    const fromSitemap = sitemap ? parseSitemap(await readFile(sitemap, 'utf-8')) : [];
+    return [...new Set([...resolved, ...fromSitemap])];
+  }
+
+  /**
+   * Run the initial warmup, then re-warm on the interval if configured
+   */
+  async start(): Promise<WarmupResult> {
+    const result = await this.warm();
+    const { interval } = this.options;
+    if (interval && interval > 0 && !this.timer) {
+      this.timer = setInterval(() => void this.warm({ refresh: true }), interval);
+      // Don't keep the process alive for warmup alone
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+    return result;
+  }
+
+  /**
+   * Render the URLs into the cache, returning the current run if one is
+   * in progress
+   *
+   * @param options.refresh - Re-render pages that are already cached
+   */
+  warm(options: { refresh?: boolean } = {}): Promise<WarmupResult> {
+    if (!this.running) {
+      this.running = this.run(options.refresh ?? false).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Stop re-warming
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Render the URLs in chunks of `concurrency`
+   */
+  private async run(refresh: boolean): Promise<WarmupResult> {
+    const startTime = performance.now();
+    const failed: string[] = [];
+
+    let urls: string[];
+    try {
+      urls = await this.resolveUrls();
+    } catch (error) {
+      this.logger.error('Could not resolve warmup URLs', { error });
+      return { urls: [], failed, duration: performance.now() - startTime };
+    }
+
+    const { origin = 'http://localhost', matchRoute } = this.context;
+    const targets = urls
+      .map((url) => {
+        const href = new URL(url, origin).href;
+        return { url, href, route: matchRoute?.(new URL(href).pathname) };
+      })
+      .filter(({ url, route }) => {
+        const cached = !route || (route.renderMode === 'server' && route.cache !== false);
+        if (!cached) {
+          this.logger.debug(`Skipping warmup of ${url}, its route is not cached`, { url });
+        }
+        return cached;
+      });
+    urls = targets.map(({ url }) => url);
+
+    for (const targetChunk of chunk(targets, this.concurrency)) {
+      await Promise.all(
+        targetChunk.map(async ({ url, href, route }) => {
+          try {
+            const result = await this.engine.render({
+              url,
+              request: new Request(href),
+              ...getRouteRenderOptions(route),
+              refreshCache: refresh,
+              stream: false,
+            });
+            if (result.status >= 500) {
+              failed.push(url);
+              this.logger.warn(`Warmup render of ${url} responded with ${result.status}`, {
+                url,
+                status: result.status,
+              });
+            }
+          } catch (error) {
+            failed.push(url);
+            this.logger.warn(`Warmup render of ${url} failed`, { url, error });
+          }
+        })
+      );
+    }
+
+    const duration = performance.now() - startTime;
+    this.logger.info(refresh ? 'Cache re-warmed' : 'Cache warmed', {
+      urls: urls.length,
+      failed: failed.length,
+      duration: Math.round(duration),
+    });
+    return { urls, failed, duration };
+  }
+}
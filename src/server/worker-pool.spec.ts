@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RenderWorkerPool } from './worker-pool';
+import { RenderTimeoutError } from './errors';
+
+/**
+ * Stand-in for a Bun Worker answering renders based on the URL
+ */
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+  static heapUsed = 1000;
+
+  terminated = false;
+  received: { id: number; url: string }[] = [];
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: { id: number; url: string }): void {
+    if (message.url === '/uncloneable') {
+      throw new DOMException('The object can not be cloned.', 'DataCloneError');
+    }
+    this.received.push(message);
+    if (message.url === '/hang') return;
+
+    setTimeout(() => {
+      if (message.url === '/crash') {
+        const event = Object.assign(new Event('error', { cancelable: true }), {
+          message: 'segfault',
+        });
+        this.dispatchEvent(event);
+        return;
+      }
+
+      const data =
+        message.url === '/fail'
+          ? { id: message.id, error: { name: 'TypeError', message: 'bad' }, heapUsed: 0 }
+          : {
+              id: message.id,
+              page: { html: `<p>${message.url}</p>`, status: 200, headers: {}, cookies: [] },
+              heapUsed: FakeWorker.heapUsed,
+            };
+      this.dispatchEvent(Object.assign(new Event('message'), { data }));
+    }, 10);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+const request = (url: string) => ({ document: '<html></html>', url });
+
+describe('RenderWorkerPool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    FakeWorker.instances = [];
+    FakeWorker.heapUsed = 1000;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should spread renders across workers and queue the rest', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 2 });
+
+    const renders = ['/a', '/b', '/c'].map((url) => pool.render(request(url)));
+    expect(pool.getStats()).toMatchObject({ size: 2, busy: 2, queued: 1 });
+
+    await vi.advanceTimersByTimeAsync(20);
+    const pages = await Promise.all(renders);
+    expect(pages.map((page) => page.html)).toEqual(['<p>/a</p>', '<p>/b</p>', '<p>/c</p>']);
+    expect(FakeWorker.instances[0].received).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ busy: 0, queued: 0, totalRenders: 3 });
+  });
+
+  it('should reject with the error raised in the worker', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 1 });
+
+    const render = pool.render(request('/fail'));
+    const assertion = expect(render).rejects.toMatchObject({ name: 'TypeError', message: 'bad' });
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+    expect(pool.getStats().crashes).toBe(0);
+  });
+
+  it('should reject renders that cannot be cloned and keep dispatching', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 1 });
+
+    await expect(pool.render(request('/uncloneable'))).rejects.toThrow('can not be cloned');
+    expect(pool.getStats()).toMatchObject({ busy: 0, queued: 0 });
+
+    // Dispatched from the worker's message listener once /a is done
+    const first = pool.render(request('/a'));
+    const uncloneable = pool.render(request('/uncloneable'));
+    const last = pool.render(request('/b'));
+    const rejected = expect(uncloneable).rejects.toThrow('can not be cloned');
+    await vi.advanceTimersByTimeAsync(30);
+
+    await rejected;
+    expect((await first).html).toBe('<p>/a</p>');
+    expect((await last).html).toBe('<p>/b</p>');
+  });
+
+  it('should recycle workers after maxRenders or past maxHeapSize', async () => {
+    const pool = new RenderWorkerPool({
+      script: 'worker.js',
+      size: 1,
+      maxRenders: 2,
+      maxHeapSize: 5000,
+    });
+
+    for (const url of ['/a', '/b']) {
+      const render = pool.render(request(url));
+      await vi.advanceTimersByTimeAsync(10);
+      await render;
+    }
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    FakeWorker.heapUsed = 6000;
+    const render = pool.render(request('/c'));
+    await vi.advanceTimersByTimeAsync(10);
+    await render;
+
+    expect(FakeWorker.instances).toHaveLength(3);
+    expect(pool.getStats()).toMatchObject({ size: 1, recycled: 2 });
+  });
+
+  it('should replace crashed workers and keep serving', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 1 });
+
+    const crashed = pool.render(request('/crash'));
+    const queued = pool.render(request('/after'));
+    const assertion = expect(crashed).rejects.toThrow('Render worker crashed: segfault');
+    await vi.advanceTimersByTimeAsync(20);
+    await assertion;
+
+    expect((await queued).html).toBe('<p>/after</p>');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(pool.getStats()).toMatchObject({ size: 1, crashes: 1 });
+  });
+
+  it('should terminate workers that exceed the render timeout', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 1 });
+
+    const render = pool.render(request('/hang'), 100);
+    const assertion = expect(render).rejects.toBeInstanceOf(RenderTimeoutError);
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('should reject pending renders on close', async () => {
+    const pool = new RenderWorkerPool({ script: 'worker.js', size: 1 });
+
+    const running = pool.render(request('/hang'));
+    const queued = pool.render(request('/a'));
+    pool.close();
+
+    await expect(running).rejects.toThrow('closed');
+    await expect(queued).rejects.toThrow('closed');
+    await expect(pool.render(request('/b'))).rejects.toThrow('closed');
+    expect(pool.getStats().size).toBe(0);
+  });
+});
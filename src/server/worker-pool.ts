@@ -0,0 +1,332 @@
+import { cpus } from 'node:os';
+import type { RenderedPage } from './engine';
+import type { RedirectStatus } from './types';
+import { RenderTimeoutError } from './errors';
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Options for rendering in a pool of Bun Workers
+ */
+export interface RenderWorkerPoolOptions {
+  /**
+   * Worker entry module calling `startRenderWorker()`
+   */
+  script: string | URL;
+
+  /**
+   * Number of workers
+   * @default number of CPUs minus one (at least 1)
+   */
+  size?: number;
+
+  /**
+   * Replace a worker after it has rendered this many pages
+   */
+  maxRenders?: number;
+
+  /**
+   * Replace a worker once its heap grows beyond this many bytes
+   */
+  maxHeapSize?: number;
+
+  /**
+   * Logger for worker crashes
+   * @default the engine's logger
+   */
+  logger?: Logger;
+}
+
+/**
+ * Request sent to a render worker
+ *
+ * Everything in it must survive structured cloning, so the original request
+ * is reduced to its URL, method and headers.
+ */
+export interface RenderWorkerRequest {
+  document: string;
+  url: string;
+  request?: {
+    url: string;
+    method: string;
+    headers: [string, string][];
+  };
+  requestContext?: unknown;
+  cacheTags?: string[];
+  redirectStatus?: RedirectStatus;
+  nonce?: string;
+  traceparent?: string;
+}
+
+/**
+ * Message sent by a render worker once a render settles
+ */
+export interface RenderWorkerResponse {
+  id: number;
+  page?: RenderedPage;
+  error?: { name: string; message: string; stack?: string };
+  heapUsed: number;
+}
+
+/**
+ * Statistics of a single render worker
+ */
+export interface RenderWorkerStats {
+  id: number;
+  busy: boolean;
+  renders: number;
+  heapUsed: number;
+}
+
+/**
+ * Statistics of a render worker pool
+ */
+export interface RenderWorkerPoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  totalRenders: number;
+  crashes: number;
+  recycled: number;
+  workers: RenderWorkerStats[];
+}
+
+/**
+ * Render waiting for or running on a worker
+ */
+interface PoolTask {
+  id: number;
+  request: RenderWorkerRequest;
+  timeout?: number;
+  resolve: (page: RenderedPage) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Worker with its bookkeeping
+ */
+interface PooledWorker {
+  id: number;
+  worker: Worker;
+  renders: number;
+  heapUsed: number;
+  task: PoolTask | null;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * RenderWorkerPool - Spreads renders across Bun Workers
+ *
+ * Each worker renders one page at a time; renders wait in a FIFO queue
+ * until a worker is idle. Crashed and timed out workers are replaced, and
+ * workers are recycled after `maxRenders` renders or once their heap
+ * exceeds `maxHeapSize`.
+ */
+export class RenderWorkerPool {
+  private readonly script: string | URL;
+  private readonly size: number;
+  private readonly maxRenders?: number;
+  private readonly maxHeapSize?: number;
+  private readonly logger: Logger;
+  private readonly workers: PooledWorker[] = [];
+  private readonly queue: PoolTask[] = [];
+  private nextWorkerId = 1;
+  private nextTaskId = 1;
+  private totalRenders = 0;
+  private crashes = 0;
+  private recycled = 0;
+  private closed = false;
+
+  constructor(options: RenderWorkerPoolOptions) {
+    this.script = options.script;
+    this.size = Math.max(1, options.size ?? cpus().length - 1);
+    this.maxRenders = options.maxRenders;
+    this.maxHeapSize = options.maxHeapSize;
+    this.logger = options.logger ?? createLogger({ name: 'RenderWorkerPool' });
+
+    for (let i = 0; i < this.size; i++) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * Render a page on the next idle worker
+   *
+   * With a timeout, a worker that does not answer in time is terminated and
+   * the render rejects with a RenderTimeoutError.
+   */
+  render(request: RenderWorkerRequest, timeout?: number): Promise<RenderedPage> {
+    if (this.closed) {
+      return Promise.reject(new Error('Render worker pool is closed'));
+    }
+    return new Promise<RenderedPage>((resolve, reject) => {
+      this.queue.push({ id: this.nextTaskId++, request, timeout, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers and reject pending renders
+   */
+  close(): void {
+    this.closed = true;
+    for (const task of this.queue.splice(0)) {
+      task.reject(new Error('Render worker pool is closed'));
+    }
+    for (const pooled of [...this.workers]) {
+      pooled.task?.reject(new Error('Render worker pool is closed'));
+      this.remove(pooled);
+    }
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getStats(): RenderWorkerPoolStats {
+    return {
+      size: this.workers.length,
+      busy: this.workers.filter((pooled) => pooled.task).length,
+      queued: this.queue.length,
+      totalRenders: this.totalRenders,
+      crashes: this.crashes,
+      recycled: this.recycled,
+      workers: this.workers.map((pooled) => ({
+        id: pooled.id,
+        busy: pooled.task !== null,
+        renders: pooled.renders,
+        heapUsed: pooled.heapUsed,
+      })),
+    };
+  }
+
+  /**
+   * Start a new worker
+   */
+  private spawn(): void {
+    const pooled: PooledWorker = {
+      id: this.nextWorkerId++,
+      worker: new Worker(this.script),
+      renders: 0,
+      heapUsed: 0,
+      task: null,
+    };
+
+    pooled.worker.addEventListener('message', (event) => {
+      this.onMessage(pooled, (event as MessageEvent<RenderWorkerResponse>).data);
+    });
+    pooled.worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      this.onCrash(pooled, (event as ErrorEvent).message);
+    });
+    pooled.worker.addEventListener('close', () => {
+      this.onCrash(pooled, 'worker exited');
+    });
+
+    this.workers.push(pooled);
+  }
+
+  /**
+   * Stop a worker without treating it as a crash
+   */
+  private remove(pooled: PooledWorker): void {
+    const index = this.workers.indexOf(pooled);
+    if (index !== -1) {
+      this.workers.splice(index, 1);
+    }
+    clearTimeout(pooled.timer);
+    pooled.task = null;
+    pooled.worker.terminate();
+  }
+
+  /**
+   * Replace a worker with a fresh one
+   */
+  private replace(pooled: PooledWorker): void {
+    this.remove(pooled);
+    if (!this.closed) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * Hand queued renders to idle workers
+   *
+   * Renders whose request can't be cloned for the worker are rejected and
+   * the worker takes the next one.
+   */
+  private dispatch(): void {
+    for (const pooled of this.workers) {
+      while (this.queue.length > 0 && !pooled.task) {
+        const task = this.queue.shift()!;
+        pooled.task = task;
+        if (task.timeout) {
+          pooled.timer = setTimeout(() => this.onTimeout(pooled, task), task.timeout);
+        }
+        try {
+          pooled.worker.postMessage({ id: task.id, ...task.request });
+        } catch (error) {
+          // DataCloneError, thrown synchronously
+          clearTimeout(pooled.timer);
+          pooled.task = null;
+          task.reject(error as Error);
+        }
+      }
+      if (this.queue.length === 0) return;
+    }
+  }
+
+  /**
+   * Settle the render of a worker and recycle it if needed
+   */
+  private onMessage(pooled: PooledWorker, message: RenderWorkerResponse): void {
+    const task = pooled.task;
+    if (!task || message.id !== task.id) return;
+
+    clearTimeout(pooled.timer);
+    pooled.task = null;
+    pooled.renders++;
+    pooled.heapUsed = message.heapUsed;
+    this.totalRenders++;
+
+    if (message.error) {
+      const error = new Error(message.error.message);
+      error.name = message.error.name;
+      error.stack = message.error.stack;
+      task.reject(error);
+    } else {
+      task.resolve(message.page!);
+    }
+
+    if (
+      (this.maxRenders !== undefined && pooled.renders >= this.maxRenders) ||
+      (this.maxHeapSize !== undefined && pooled.heapUsed >= this.maxHeapSize)
+    ) {
+      this.recycled++;
+      this.replace(pooled);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Fail the render of a worker that did not answer in time
+   */
+  private onTimeout(pooled: PooledWorker, task: PoolTask): void {
+    if (pooled.task !== task) return;
+    task.reject(new RenderTimeoutError(task.request.url, task.timeout!));
+    this.replace(pooled);
+    this.dispatch();
+  }
+
+  /**
+   * Fail the render of a crashed worker and replace it
+   */
+  private onCrash(pooled: PooledWorker, reason: string): void {
+    // Workers removed on purpose also emit close events
+    if (!this.workers.includes(pooled)) return;
+
+    this.crashes++;
+    this.logger.error(`Worker ${pooled.id} crashed: ${reason}`, { worker: pooled.id, reason });
+    pooled.task?.reject(new Error(`Render worker crashed: ${reason}`));
+    this.replace(pooled);
+    this.dispatch();
+  }
+}
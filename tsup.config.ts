@@ -15,9 +15,12 @@ export default defineConfig([
     external: [
       '@angular/core',
       '@angular/common',
+      '@angular/common/http',
       '@angular/platform-server',
       '@angular/ssr',
       'bun',
+      'bun:sqlite',
+      'rxjs',
     ],
     treeshake: true,
     splitting: false,